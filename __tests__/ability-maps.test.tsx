@@ -0,0 +1,178 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { PermissionsProvider } from '../components/permissions-provider';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Ability Maps', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+  });
+
+  const mockPageProps = (auth: Record<string, unknown>) => {
+    mockUsePage.mockReturnValue({
+      props: { auth, errors: {} },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const abilities = {
+    'users.create': true,
+    'users.edit': true,
+    'users.delete': false,
+  };
+
+  describe('auth.can', () => {
+    it('should derive permissions from true entries', () => {
+      mockPageProps({ user: { id: 1 }, can: abilities });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual([
+        'users.create',
+        'users.edit',
+      ]);
+      expect(result.current.deniedPermissions).toEqual(['users.delete']);
+      expect(result.current.hasPermission('users.create')).toBe(true);
+      expect(result.current.hasPermission('users.delete')).toBe(false);
+    });
+
+    it('should match wildcards and expressions against true entries', () => {
+      mockPageProps({ user: { id: 1 }, can: abilities });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('users.*')).toBe(true);
+      expect(result.current.hasPermission('users.d*')).toBe(false);
+      expect(result.current.getMatchingPermissions('users.*')).toEqual([
+        'users.create',
+        'users.edit',
+      ]);
+      expect(
+        result.current.checkExpression('users.edit && !users.delete')
+      ).toBe(true);
+    });
+
+    it('should let false entries deny user permissions', () => {
+      mockPageProps({
+        user: { id: 1, permissions: ['users.delete', 'posts.view'] },
+        can: { 'users.delete': false, 'reports.view': true },
+      });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual([
+        'posts.view',
+        'reports.view',
+      ]);
+      expect(result.current.hasPermission('users.delete')).toBe(false);
+    });
+
+    it('should ignore abilities of guests', () => {
+      mockPageProps({ user: null, can: abilities });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.isAuthenticated).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+  });
+
+  describe('other sources', () => {
+    it('should accept an ability map as user permissions', () => {
+      mockPageProps({ user: { id: 1, permissions: abilities } });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('users.edit')).toBe(true);
+      expect(result.current.hasPermission('users.delete')).toBe(false);
+    });
+
+    it('should accept an explicit ability map', () => {
+      mockPageProps({ user: { id: 1, permissions: ['posts.view'] } });
+      const { result } = renderHook(() => usePermissions(abilities));
+
+      expect(result.current.userPermissions).toEqual([
+        'users.create',
+        'users.edit',
+      ]);
+    });
+
+    it('should let false entries override wildcard grants', () => {
+      mockPageProps({ user: { id: 1 } });
+      const { result } = renderHook(() =>
+        usePermissions(
+          { 'users.*': true, 'users.delete': false },
+          { grantWildcards: true }
+        )
+      );
+
+      expect(result.current.hasPermission('users.edit')).toBe(true);
+      expect(result.current.hasPermission('users.delete')).toBe(false);
+    });
+
+    it('should accept an ability map from a selector', () => {
+      configurePermissions({
+        permissions: props => props.abilities as Record<string, boolean>,
+      });
+      mockUsePage.mockReturnValue({
+        props: {
+          auth: { user: { id: 1 } },
+          abilities: { 'reports.export': true },
+          errors: {},
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual(['reports.export']);
+    });
+
+    it('should accept an ability map for a team', () => {
+      mockPageProps({
+        user: {
+          id: 1,
+          current_team_id: 1,
+          team_permissions: { 1: { 'projects.create': true } },
+        },
+      });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('projects.create')).toBe(true);
+    });
+  });
+
+  describe('components', () => {
+    it('should render Can with an ability map prop', () => {
+      mockPageProps({ user: { id: 1 } });
+      render(
+        <Can permission="users.delete" permissions={abilities} fallback="No">
+          <div>Delete</div>
+        </Can>
+      );
+
+      expect(screen.getByText('No')).toBeInTheDocument();
+    });
+
+    it('should read an ability map from PermissionsProvider', () => {
+      const Panel = () => <div>Users</div>;
+      const Protected = withPermission(Panel, { permission: 'users.edit' });
+      render(
+        <PermissionsProvider permissions={abilities}>
+          <Protected />
+        </PermissionsProvider>
+      );
+
+      expect(screen.getByText('Users')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Attribute Conditions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const user = {
+    id: 5,
+    department: 'finance',
+    plan: 'pro',
+    seats: 3,
+    email_verified_at: null,
+    roles: ['editor'],
+    address: { country: 'NL' },
+    permissions: ['invoices.approve', 'user.edit'],
+  };
+
+  const mockPageProps = (attributes: Record<string, unknown> = user) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: { user: attributes },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const check = (expression: string, resource?: object | null) => {
+    const { result } = renderHook(() => usePermissions());
+    return result.current.checkExpression(expression, resource);
+  };
+
+  describe('comparisons', () => {
+    it('should compare user attributes with strings', () => {
+      mockPageProps();
+
+      expect(check("user.department == 'finance' && invoices.approve")).toBe(
+        true
+      );
+      expect(check('user.department == "sales"')).toBe(false);
+      expect(check("user.department != 'sales'")).toBe(true);
+    });
+
+    it('should order numbers and strings', () => {
+      mockPageProps();
+
+      expect(check('user.seats > 2')).toBe(true);
+      expect(check('user.seats < 3')).toBe(false);
+      expect(check('user.seats >= 3 && user.seats <= 3')).toBe(true);
+      expect(check("user.plan < 'team'")).toBe(true);
+      expect(check("user.seats > 'many'")).toBe(false);
+    });
+
+    it('should test membership with in', () => {
+      mockPageProps();
+
+      expect(check("user.plan in ['pro', 'team']")).toBe(true);
+      expect(check("user.plan IN ['free']")).toBe(false);
+      expect(check("'editor' in user.roles")).toBe(true);
+      expect(check('user.seats in [1, 2, 3]')).toBe(true);
+      expect(check("user.plan in 'pro'")).toBe(false);
+    });
+
+    it('should read nested attributes and null', () => {
+      mockPageProps();
+
+      expect(check("user.address.country == 'NL'")).toBe(true);
+      expect(check('user.email_verified_at == null')).toBe(true);
+      expect(check('user.missing.attribute == null')).toBe(true);
+      expect(check('user.address == null')).toBe(true);
+    });
+
+    it('should handle escaped quotes', () => {
+      mockPageProps({ ...user, department: "o'brien" });
+
+      expect(check("user.department == 'o\\'brien'")).toBe(true);
+    });
+  });
+
+  describe('resources', () => {
+    const post = { id: 1, owner_id: '5', status: 'draft' };
+
+    it('should compare user and resource attributes', () => {
+      mockPageProps();
+
+      expect(check('user.id == resource.owner_id', post)).toBe(true);
+      expect(check('user.id == resource.owner_id', { owner_id: 6 })).toBe(
+        false
+      );
+      expect(check("resource.status == 'draft'", post)).toBe(true);
+    });
+
+    it('should read null without a resource', () => {
+      mockPageProps();
+
+      expect(check('resource.owner_id == null')).toBe(true);
+      expect(check('user.id == resource.owner_id')).toBe(false);
+    });
+
+    it('should render Can with a resource', () => {
+      mockPageProps();
+      render(
+        <Can
+          expression="user.id == resource.owner_id || posts.edit-any"
+          resource={post}
+        >
+          <div>Edit</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Edit')).toBeInTheDocument();
+    });
+  });
+
+  describe('safety', () => {
+    it('should not read inherited properties', () => {
+      mockPageProps();
+
+      expect(check('user.constructor == null')).toBe(true);
+      expect(check('user.__proto__ == null')).toBe(true);
+      expect(check('user.toString == null')).toBe(true);
+    });
+
+    it('should not treat Object.prototype keys as constants', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.isValidExpression('toString == 1')).toBe(false);
+      expect(result.current.isValidExpression('constructor != null')).toBe(
+        false
+      );
+      expect(result.current.isValidExpression('null == user.missing')).toBe(
+        true
+      );
+    });
+
+    it('should read no attributes for guests', () => {
+      mockPageProps(null as unknown as Record<string, unknown>);
+
+      expect(check("user.department == 'finance'")).toBe(false);
+    });
+
+    it('should keep attribute-like permission names', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('user.edit')).toBe(true);
+      expect(result.current.checkExpression('user.edit && user.id == 5')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('validation and explanation', () => {
+    it('should report an unterminated string', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.validateExpression("user.plan == 'pro").errors
+      ).toEqual([
+        {
+          message: 'Unterminated string',
+          code: 'unterminated_string',
+          start: 13,
+          end: 17,
+        },
+      ]);
+    });
+
+    it('should report an unclosed list', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.validateExpression("user.plan in ['pro'").errors
+      ).toEqual([
+        {
+          message: "Unclosed '['",
+          code: 'unbalanced_parenthesis',
+          start: 13,
+          end: 14,
+        },
+      ]);
+    });
+
+    it('should require a comparison for strings', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.validateExpression("'finance'").errors).toEqual([
+        expect.objectContaining({ code: 'missing_comparison' }),
+      ]);
+    });
+
+    it('should explain attribute values', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.explainExpression("user.plan in ['pro', 'team']")
+      ).toEqual({
+        type: 'compare',
+        expression: "user.plan in ['pro', 'team']",
+        result: true,
+        children: [
+          {
+            type: 'attribute',
+            expression: 'user.plan',
+            result: true,
+            value: 'pro',
+          },
+          {
+            type: 'list',
+            expression: "['pro', 'team']",
+            result: true,
+            value: ['pro', 'team'],
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+import { patternToRegExp } from '../lib/pattern';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Brace expansion and character classes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('brace groups', () => {
+    it('should match any of the listed alternatives', () => {
+      mockPageProps(['posts.edit']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.hasPermissionPattern('posts.{create,edit,delete}')
+      ).toBe(true);
+      expect(result.current.hasPermissionPattern('posts.{create,delete}')).toBe(
+        false
+      );
+      expect(result.current.hasPermission('posts.{create,edit}')).toBe(true);
+    });
+
+    it('should support wildcards and nested groups inside alternatives', () => {
+      mockPageProps(['teams.42.view', 'users.archive.restore']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermissionPattern('{users,teams}.*.view')).toBe(
+        true
+      );
+      expect(
+        result.current.hasPermissionPattern('users.{archive.{restore,purge},*}')
+      ).toBe(true);
+    });
+
+    it('should combine with operators and count()', () => {
+      mockPageProps(['posts.create', 'posts.edit', 'admin.access']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression(
+          'posts.{create,edit} && !posts.{delete,publish}'
+        )
+      ).toBe(true);
+      expect(
+        result.current.checkExpression('count(posts.{create,edit,delete}) == 2')
+      ).toBe(true);
+      expect(
+        result.current.checkExpression(
+          'atLeast(2, posts.{create,edit}, admin.{access,root})'
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('character classes', () => {
+    it('should match a single character from a range', () => {
+      mockPageProps(['reports.q3', 'level7.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermissionPattern('reports.q[1-4]')).toBe(true);
+      expect(result.current.hasPermissionPattern('reports.q[5-8]')).toBe(false);
+      expect(result.current.hasPermissionPattern('level[0-9].view')).toBe(true);
+      expect(result.current.hasPermissionPattern('level[a-z].view')).toBe(
+        false
+      );
+    });
+
+    it('should support negated classes', () => {
+      mockPageProps(['levelA.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermissionPattern('level[!0-9].view')).toBe(
+        true
+      );
+      expect(result.current.hasPermissionPattern('level[^A-Z].view')).toBe(
+        false
+      );
+    });
+
+    it('should keep exact permissions with empty brackets as plain names', () => {
+      mockPageProps(['user.view[]']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('user.view[]')).toBe(true);
+    });
+  });
+
+  describe('getMatchingPermissions', () => {
+    it('should return permissions matching braces and classes', () => {
+      mockPageProps([
+        'posts.create',
+        'posts.edit',
+        'posts.delete',
+        'reports.q1',
+        'reports.q9',
+      ]);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.getMatchingPermissions('posts.{create,delete}')
+      ).toEqual(['posts.create', 'posts.delete']);
+      expect(result.current.getMatchingPermissions('reports.q[1-4]')).toEqual([
+        'reports.q1',
+      ]);
+    });
+
+    it('should warn and return nothing for an invalid pattern', () => {
+      mockPageProps(['posts.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.getMatchingPermissions('posts.{create')).toEqual(
+        []
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        'Invalid permission pattern:',
+        'posts.{create',
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe('escaping', () => {
+    it('should match every other character literally', () => {
+      expect(patternToRegExp('users.create+').test('users.create+')).toBe(true);
+      expect(patternToRegExp('users.create+').test('users.createe')).toBe(
+        false
+      );
+      expect(patternToRegExp('a.b').test('aXb')).toBe(false);
+      expect(patternToRegExp('cost$.*').test('cost$.view')).toBe(true);
+      expect(patternToRegExp('a|b.*').test('b.view')).toBe(false);
+    });
+
+    it('should match punctuation literally in hook pattern checks', () => {
+      mockPageProps(['user.create+', 'cost$.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermissionPattern('user.create+')).toBe(true);
+      expect(result.current.hasPermissionPattern('user.*+')).toBe(true);
+      expect(result.current.hasPermissionPattern('user.create')).toBe(false);
+      expect(result.current.hasAnyPattern(['admin.*', 'user.*+'])).toBe(true);
+      expect(result.current.hasAllPatterns(['user.*+', 'cost$.*'])).toBe(true);
+      expect(result.current.getMatchingPermissions('user.create+')).toEqual([
+        'user.create+',
+      ]);
+      expect(console.warn).not.toHaveBeenCalled();
+
+      render(
+        <Can anyPatterns={['user.*+']}>
+          <div>Plus</div>
+        </Can>
+      );
+      expect(screen.getByText('Plus')).toBeInTheDocument();
+    });
+
+    it('should match punctuation literally in hook permission checks', () => {
+      mockPageProps(['a+b', 'a(b']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('a+*')).toBe(true);
+      expect(result.current.hasPermission('a-*')).toBe(false);
+      expect(result.current.hasAnyPermission(['a(*'])).toBe(true);
+      expect(result.current.hasAllPermissions(['a+*', 'a(*'])).toBe(true);
+      expect(console.warn).not.toHaveBeenCalled();
+
+      render(
+        <Can permission="a+*">
+          <div>Plus</div>
+        </Can>
+      );
+      expect(screen.getByText('Plus')).toBeInTheDocument();
+    });
+  });
+
+  describe('<Can>', () => {
+    it('should accept braces and classes in anyPatterns and allPatterns', () => {
+      mockPageProps(['posts.edit', 'reports.q2']);
+
+      render(
+        <Can anyPatterns={['posts.{create,edit}', 'admin.*']}>
+          <div>Any</div>
+        </Can>
+      );
+      render(
+        <Can allPatterns={['posts.{create,edit}', 'reports.q[1-4]']}>
+          <div>All</div>
+        </Can>
+      );
+      render(
+        <Can pattern="reports.q[5-8]" fallback={<div>Fallback</div>}>
+          <div>Pattern</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Any')).toBeInTheDocument();
+      expect(screen.getByText('All')).toBeInTheDocument();
+      expect(screen.getByText('Fallback')).toBeInTheDocument();
+    });
+  });
+
+  describe('validation', () => {
+    it('should report invalid patterns at their position', () => {
+      mockPageProps([]);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.validateExpression('admin.access && posts.{create')
+          .errors[0]
+      ).toMatchObject({ code: 'invalid_pattern', start: 22, end: 23 });
+      expect(
+        result.current.validateExpression('reports.q[4-1]').errors[0]
+      ).toMatchObject({ code: 'invalid_pattern', start: 9, end: 14 });
+      expect(result.current.isValidExpression('posts.{create,edit}')).toBe(
+        true
+      );
+      expect(result.current.hasPermissionPattern('posts.{create')).toBe(false);
+    });
+  });
+});
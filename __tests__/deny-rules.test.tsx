@@ -0,0 +1,163 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Deny Rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (
+    userPermissions: string[] = [],
+    forbidden?: string[]
+  ) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+            forbidden,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('denial entries', () => {
+    it('should override an exact grant', () => {
+      mockPageProps(['invoices.delete', 'invoices.view', '-invoices.delete']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('invoices.delete')).toBe(false);
+      expect(result.current.hasPermission('invoices.view')).toBe(true);
+      expect(result.current.userPermissions).toEqual(['invoices.view']);
+      expect(result.current.deniedPermissions).toEqual(['invoices.delete']);
+    });
+
+    it('should override a wildcard grant', () => {
+      mockPageProps(['invoices.*', '-invoices.delete']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      expect(result.current.hasPermission('invoices.edit')).toBe(true);
+      expect(result.current.hasPermission('invoices.delete')).toBe(false);
+      expect(
+        result.current.hasAnyPermission(['invoices.delete', 'posts.view'])
+      ).toBe(false);
+      expect(
+        result.current.hasAllPermissions(['invoices.edit', 'invoices.delete'])
+      ).toBe(false);
+    });
+
+    it('should accept patterns as denials', () => {
+      mockPageProps(['invoices.view', 'invoices.export', '-invoices.*']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('invoices.view')).toBe(false);
+      expect(result.current.hasPermissionPattern('invoices.*')).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+
+    it('should read denials from a custom permissions array', () => {
+      mockPageProps(['invoices.delete']);
+      const { result } = renderHook(() =>
+        usePermissions(['invoices.delete', '-invoices.delete'])
+      );
+
+      expect(result.current.hasPermission('invoices.delete')).toBe(false);
+    });
+  });
+
+  describe('auth.user.forbidden', () => {
+    it('should deny forbidden permissions', () => {
+      mockPageProps(['invoices.view', 'invoices.delete'], ['invoices.delete']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('invoices.delete')).toBe(false);
+      expect(result.current.hasPermission('invoices.view')).toBe(true);
+      expect(result.current.deniedPermissions).toEqual(['invoices.delete']);
+    });
+
+    it('should not apply to a custom permissions array', () => {
+      mockPageProps([], ['invoices.delete']);
+      const { result } = renderHook(() => usePermissions(['invoices.delete']));
+
+      expect(result.current.hasPermission('invoices.delete')).toBe(true);
+    });
+  });
+
+  describe('patterns and expressions', () => {
+    it('should leave denied entries out of pattern checks', () => {
+      mockPageProps([
+        'invoices.view',
+        'invoices.delete',
+        '-invoices.delete',
+        'posts.view',
+      ]);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.getMatchingPermissions('invoices.*')).toEqual([
+        'invoices.view',
+      ]);
+      expect(result.current.hasPermissionPattern('invoices.{delete}')).toBe(
+        false
+      );
+      expect(result.current.hasAllPatterns(['invoices.*', 'posts.*'])).toBe(
+        true
+      );
+      expect(result.current.checkExpression('count(invoices.*) == 1')).toBe(
+        true
+      );
+      expect(
+        result.current.checkExpression('invoices.delete || posts.delete')
+      ).toBe(false);
+      expect(
+        result.current.checkExpression('invoices.view && !invoices.delete')
+      ).toBe(true);
+    });
+
+    it('should apply to <Can>', () => {
+      mockPageProps(['invoices.*'], ['invoices.delete']);
+
+      render(
+        <Can
+          permission="invoices.delete"
+          grantWildcards
+          fallback={<div>Cannot delete</div>}
+        >
+          <div>Delete invoice</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Cannot delete')).toBeInTheDocument();
+    });
+
+    it('should let Spatie denials override what grants imply', () => {
+      mockPageProps(['invoices:*', '-invoices:delete']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'spatie' })
+      );
+
+      expect(result.current.hasPermission('invoices:edit')).toBe(true);
+      expect(result.current.hasPermission('invoices:delete')).toBe(false);
+      expect(result.current.hasPermission('invoices:delete:7')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { PermissionsProvider } from '../components/permissions-provider';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+import { validateExpression } from '../lib/expression';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Entitlements and Quotas', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (
+    entitlements: Record<string, unknown> | null = {
+      'projects.max': 5,
+      'seats.max': true,
+      sso: false,
+    },
+    usage: Record<string, unknown> | null = { 'projects.count': 3 },
+    permissions: string[] = ['projects.create']
+  ) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: { id: 1, permissions },
+          entitlements,
+          usage,
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const check = (expression: string) => {
+    const { result } = renderHook(() => usePermissions());
+    return result.current.checkExpression(expression);
+  };
+
+  describe('hook helpers', () => {
+    it('should read entitlements and usage', () => {
+      mockPageProps();
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.entitlement('projects.max')).toBe(5);
+      expect(result.current.entitlement('sso')).toBe(false);
+      expect(result.current.entitlement('missing')).toBeNull();
+      expect(result.current.usage('projects.count')).toBe(3);
+      expect(result.current.usage('missing')).toBe(0);
+    });
+
+    it('should not read inherited properties', () => {
+      mockPageProps();
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.entitlement('constructor')).toBeNull();
+      expect(result.current.usage('toString')).toBe(0);
+    });
+
+    it('should check whether a quota has room left', () => {
+      mockPageProps();
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasQuota('projects.max', 'projects.count')).toBe(
+        true
+      );
+      expect(result.current.hasQuota('seats.max')).toBe(true);
+      expect(result.current.hasQuota('sso')).toBe(false);
+      expect(result.current.hasQuota('missing')).toBe(false);
+    });
+
+    it('should treat a quota at its limit as exhausted', () => {
+      mockPageProps({ 'projects.max': 3 });
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasQuota('projects.max', 'projects.count')).toBe(
+        false
+      );
+    });
+
+    it('should work without entitlements or usage', () => {
+      mockPageProps(null, null);
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.entitlement('projects.max')).toBeNull();
+      expect(result.current.usage('projects.count')).toBe(0);
+      expect(result.current.hasQuota('projects.max')).toBe(false);
+    });
+  });
+
+  describe('expressions', () => {
+    it('should compare entitlements with usage', () => {
+      mockPageProps();
+
+      expect(check('entitlement(projects.max) > usage(projects.count)')).toBe(
+        true
+      );
+      expect(check('entitlement(projects.max) <= usage(projects.count)')).toBe(
+        false
+      );
+      expect(
+        check(
+          'projects.create && entitlement(projects.max) > usage(projects.count)'
+        )
+      ).toBe(true);
+    });
+
+    it('should compare entitlements with constants and numbers', () => {
+      mockPageProps();
+
+      expect(check('entitlement(seats.max) == true')).toBe(true);
+      expect(check('entitlement(sso) == true')).toBe(false);
+      expect(check('usage(projects.count) < 10')).toBe(true);
+    });
+
+    it('should order unlimited entitlements above every number', () => {
+      mockPageProps();
+
+      expect(check('entitlement(seats.max) > usage(seats.count)')).toBe(true);
+      expect(check('usage(seats.count) < entitlement(seats.max)')).toBe(true);
+      expect(check('entitlement(seats.max) >= 1000000')).toBe(true);
+      expect(check('entitlement(seats.max) <= 5')).toBe(false);
+    });
+
+    it('should fail comparisons against missing entitlements', () => {
+      mockPageProps();
+
+      expect(check('entitlement(missing) > usage(missing)')).toBe(false);
+      expect(check('entitlement(missing) == null')).toBe(true);
+      expect(check('usage(missing) == 0')).toBe(true);
+    });
+
+    it('should keep permissions named like the functions', () => {
+      mockPageProps(undefined, undefined, ['usage', 'entitlement.view']);
+
+      expect(check('usage && entitlement.view')).toBe(true);
+    });
+
+    it('should explain entitlement and usage values', () => {
+      mockPageProps();
+
+      const { result } = renderHook(() => usePermissions());
+      const explanation = result.current.explainExpression(
+        'entitlement(projects.max) > usage(projects.count)'
+      );
+
+      expect(explanation.result).toBe(true);
+      expect(explanation.children).toEqual([
+        expect.objectContaining({ type: 'entitlement', value: 5 }),
+        expect.objectContaining({ type: 'usage', value: 3 }),
+      ]);
+    });
+
+    it('should reject anything but a single name', () => {
+      expect(validateExpression('entitlement(a, b) > 1').errors).toEqual([
+        expect.objectContaining({
+          code: 'invalid_argument',
+          message:
+            'entitlement() expects a single name, e.g. entitlement(projects.max)',
+        }),
+      ]);
+      expect(validateExpression('usage(a && b) > 1').errors).toEqual([
+        expect.objectContaining({ code: 'invalid_argument' }),
+      ]);
+      expect(validateExpression('usage() > 1').valid).toBe(false);
+    });
+  });
+
+  describe('Can component', () => {
+    it('should render the children while the quota has room left', () => {
+      mockPageProps();
+
+      render(
+        <Can
+          permission="projects.create"
+          quota="projects.max"
+          quotaUsage="projects.count"
+          upgrade={<div>Upgrade</div>}
+        >
+          <div>Create project</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Create project')).toBeInTheDocument();
+      expect(screen.queryByText('Upgrade')).not.toBeInTheDocument();
+    });
+
+    it('should render the upgrade fallback once the quota is exhausted', () => {
+      mockPageProps({ 'projects.max': 3 });
+
+      render(
+        <Can
+          permission="projects.create"
+          quota="projects.max"
+          quotaUsage="projects.count"
+          upgrade={<div>Upgrade</div>}
+          fallback={<div>No access</div>}
+        >
+          <div>Create project</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Upgrade')).toBeInTheDocument();
+      expect(screen.queryByText('Create project')).not.toBeInTheDocument();
+      expect(screen.queryByText('No access')).not.toBeInTheDocument();
+    });
+
+    it('should render the fallback without the permission', () => {
+      mockPageProps({ 'projects.max': 3 }, undefined, []);
+
+      render(
+        <Can
+          permission="projects.create"
+          quota="projects.max"
+          upgrade={<div>Upgrade</div>}
+          fallback={<div>No access</div>}
+        >
+          <div>Create project</div>
+        </Can>
+      );
+
+      expect(screen.getByText('No access')).toBeInTheDocument();
+      expect(screen.queryByText('Upgrade')).not.toBeInTheDocument();
+    });
+
+    it('should fall back to the fallback without an upgrade', () => {
+      mockPageProps({ 'projects.max': 3 });
+
+      render(
+        <Can
+          quota="projects.max"
+          quotaUsage="projects.count"
+          fallback={<div>No access</div>}
+        >
+          <div>Create project</div>
+        </Can>
+      );
+
+      expect(screen.getByText('No access')).toBeInTheDocument();
+    });
+
+    it('should check a quota on its own', () => {
+      mockPageProps();
+
+      render(
+        <Can quota="seats.max">
+          <div>Invite</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Invite')).toBeInTheDocument();
+    });
+  });
+
+  describe('withPermission', () => {
+    it('should pass the quota options to Can', () => {
+      mockPageProps({ 'projects.max': 3 });
+
+      const Button = () => <button>Create project</button>;
+      const NewProjectButton = withPermission(Button, {
+        permission: 'projects.create',
+        quota: 'projects.max',
+        quotaUsage: 'projects.count',
+        upgrade: <div>Upgrade</div>,
+      });
+
+      render(<NewProjectButton />);
+
+      expect(screen.getByText('Upgrade')).toBeInTheDocument();
+    });
+  });
+
+  describe('sources', () => {
+    it('should read entitlements and usage through configured selectors', () => {
+      mockUsePage.mockReturnValue({
+        props: {
+          auth: { user: { id: 1, permissions: [] } },
+          billing: { limits: { 'projects.max': 2 }, used: { projects: 2 } },
+          errors: {},
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any);
+      configurePermissions<{
+        billing: {
+          limits: Record<string, number>;
+          used: Record<string, number>;
+        };
+      }>({
+        entitlements: props => props.billing.limits,
+        usage: props => props.billing.used,
+      });
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.entitlement('projects.max')).toBe(2);
+      expect(result.current.hasQuota('projects.max', 'projects')).toBe(false);
+    });
+
+    it('should read entitlements and usage from a PermissionsProvider', () => {
+      mockUsePage.mockImplementation(() => {
+        throw new Error('usePage must be used within the Inertia component');
+      });
+
+      render(
+        <PermissionsProvider
+          permissions={[]}
+          entitlements={{ 'projects.max': 1 }}
+          usage={{ 'projects.max': 1 }}
+        >
+          <Can quota="projects.max" upgrade={<div>Upgrade</div>}>
+            <div>Create project</div>
+          </Can>
+        </PermissionsProvider>
+      );
+
+      expect(screen.getByText('Upgrade')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { renderHook } from '@testing-library/react';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - explainExpression', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  it('should explain which part of an expression failed', () => {
+    mockPageProps(['users.create', 'users.edit', 'posts.view']);
+    const { result } = renderHook(() => usePermissions());
+
+    const explanation = result.current.explainExpression(
+      '(users.* || posts.*) && admin.access'
+    );
+
+    expect(explanation).toEqual({
+      type: 'and',
+      expression: '(users.* || posts.*) && admin.access',
+      result: false,
+      children: [
+        {
+          type: 'or',
+          expression: '(users.* || posts.*)',
+          result: true,
+          children: [
+            {
+              type: 'permission',
+              expression: 'users.*',
+              result: true,
+              matches: ['users.create', 'users.edit'],
+            },
+            {
+              type: 'permission',
+              expression: 'posts.*',
+              result: true,
+              matches: ['posts.view'],
+            },
+          ],
+        },
+        {
+          type: 'permission',
+          expression: 'admin.access',
+          result: false,
+          matches: [],
+        },
+      ],
+    });
+  });
+
+  it('should agree with checkExpression', () => {
+    mockPageProps(['users.create', 'admin.access']);
+    const { result } = renderHook(() => usePermissions());
+
+    const expressions = [
+      'users.* && admin.access',
+      'users.delete || !admin.access',
+      'true && (posts.* | admin.?ccess)',
+      '*',
+    ];
+
+    expressions.forEach(expression => {
+      expect(result.current.explainExpression(expression).result).toBe(
+        result.current.checkExpression(expression)
+      );
+    });
+  });
+
+  it('should explain negations and literals', () => {
+    mockPageProps(['admin.access']);
+    const { result } = renderHook(() => usePermissions());
+
+    const explanation = result.current.explainExpression(
+      '!admin.access || true'
+    );
+
+    expect(explanation.result).toBe(true);
+    expect(explanation.children?.[0]).toMatchObject({
+      type: 'not',
+      expression: '!admin.access',
+      result: false,
+      children: [{ type: 'permission', result: true }],
+    });
+    expect(explanation.children?.[1]).toEqual({
+      type: 'literal',
+      expression: 'true',
+      result: true,
+    });
+  });
+
+  it('should pass the universal wildcard without matches', () => {
+    mockPageProps([]);
+    const { result } = renderHook(() => usePermissions());
+
+    expect(result.current.explainExpression('*')).toEqual({
+      type: 'permission',
+      expression: '*',
+      result: true,
+      matches: [],
+    });
+  });
+
+  it('should report syntax errors instead of throwing', () => {
+    mockPageProps(['users.create']);
+    const { result } = renderHook(() => usePermissions());
+
+    const explanation = result.current.explainExpression('users.create &&');
+
+    expect(explanation.type).toBe('error');
+    expect(explanation.result).toBe(false);
+    expect(explanation.error).toMatch(/missing its right operand/);
+  });
+});
@@ -0,0 +1,154 @@
+import { renderHook } from '@testing-library/react';
+import { usePermissions } from '../hooks/use-permissions';
+import { LruCache } from '../lib/cache';
+import {
+  clearExpressionCache,
+  compileExpression,
+  evaluateCompiledExpression,
+} from '../lib/evaluator';
+import { type ExpressionNode } from '../lib/expression';
+import {
+  clearPatternCache,
+  compilePattern,
+  type PatternMatcher,
+} from '../lib/pattern';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Compiled expression cache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearExpressionCache();
+    clearPatternCache();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  // The matchers of the permission leaves under and / or, left to right
+  const leafMatchers = (node: ExpressionNode): PatternMatcher[] => {
+    if (node.type === 'permission') return [node.matcher];
+    if (node.type === 'and' || node.type === 'or') {
+      return [...leafMatchers(node.left), ...leafMatchers(node.right)];
+    }
+    return [];
+  };
+
+  describe('LruCache', () => {
+    it('should evict the least recently used entry', () => {
+      const cache = new LruCache<string, number>(2);
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.get('a'); // 'b' is now the least recently used
+      cache.set('c', 3);
+
+      expect(cache.size).toBe(2);
+      expect(cache.get('a')).toBe(1);
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('c')).toBe(3);
+    });
+  });
+
+  describe('compileExpression', () => {
+    it('should return the same compiled expression for the same string', () => {
+      const first = compileExpression('(users.* || posts.*) && admin.access');
+      const second = compileExpression('(users.* || posts.*) && admin.access');
+
+      expect(second).toBe(first);
+    });
+
+    it('should pre-build a matcher for every pattern', () => {
+      const compiled = compileExpression('users.* || posts.create || users.*');
+      const [first, second, third] = leafMatchers(compiled.ast);
+
+      expect(first).toBe(compilePattern('users.*'));
+      expect(second).toBe(compilePattern('posts.create'));
+      expect(third).toBe(first);
+    });
+
+    it('should share pattern matchers between expressions', () => {
+      const first = compileExpression('users.* && admin.access');
+      const second = compileExpression('posts.view || users.*');
+
+      expect(leafMatchers(second.ast)[1]).toBe(leafMatchers(first.ast)[0]);
+    });
+
+    it('should not evaluate the right side when the left side decides', () => {
+      const compiled = compileExpression('users.* || posts.*');
+      const matches = jest.fn(() => true);
+
+      expect(
+        evaluateCompiledExpression(compiled, { matches, collect: () => [] })
+      ).toBe(true);
+      expect(matches).toHaveBeenCalledTimes(1);
+      expect(matches).toHaveBeenCalledWith(leafMatchers(compiled.ast)[0]);
+    });
+  });
+
+  describe('compilePattern', () => {
+    it('should match exact names without wildcards', () => {
+      const matcher = compilePattern('users.create');
+
+      expect(matcher.test('users.create')).toBe(true);
+      expect(matcher.test('users_create')).toBe(false);
+      expect(matcher.universal).toBe(false);
+    });
+
+    it('should flag the universal wildcard', () => {
+      expect(compilePattern('*').universal).toBe(true);
+      expect(compilePattern('users.*').universal).toBe(false);
+    });
+  });
+
+  describe('usePermissions', () => {
+    it('should reuse compiled expressions across renders and hooks', () => {
+      mockPageProps(['users.create', 'admin.access']);
+
+      const { result, rerender } = renderHook(() => usePermissions());
+      const { result: other } = renderHook(() => usePermissions());
+      const expression = '(users.* || posts.*) && admin.access';
+
+      expect(result.current.checkExpression(expression)).toBe(true);
+      const compiled = compileExpression(expression);
+
+      rerender();
+      expect(result.current.checkExpression(expression)).toBe(true);
+      expect(other.current.checkExpression(expression)).toBe(true);
+      expect(compileExpression(expression)).toBe(compiled);
+    });
+
+    it('should keep results per hook even when the expression is cached', () => {
+      mockPageProps(['users.create']);
+
+      const { result } = renderHook(() => usePermissions());
+      const { result: custom } = renderHook(() =>
+        usePermissions(['posts.view'])
+      );
+
+      expect(result.current.hasPermission('users.* || posts.*')).toBe(true);
+      expect(custom.current.hasPermission('users.* || posts.*')).toBe(true);
+      expect(custom.current.hasPermission('users.* && posts.*')).toBe(false);
+      expect(custom.current.getMatchingPermissions('posts.*')).toEqual([
+        'posts.view',
+      ]);
+    });
+  });
+});
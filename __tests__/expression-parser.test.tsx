@@ -0,0 +1,170 @@
+import { renderHook } from '@testing-library/react';
+import { usePermissions } from '../hooks/use-permissions';
+import { evaluateExpression } from '../lib/evaluator';
+import {
+  ExpressionSyntaxError,
+  parseExpression,
+  tokenize,
+} from '../lib/expression';
+import { type PatternMatcher } from '../lib/pattern';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Expression parser', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('tokenize', () => {
+    it('should split operators, parentheses and patterns', () => {
+      const tokens = tokenize('(users.* || posts.view-all)&&!admin.?');
+
+      expect(tokens.map(token => [token.type, token.value])).toEqual([
+        ['lparen', '('],
+        ['pattern', 'users.*'],
+        ['or', '||'],
+        ['pattern', 'posts.view-all'],
+        ['rparen', ')'],
+        ['and', '&&'],
+        ['not', '!'],
+        ['pattern', 'admin.?'],
+      ]);
+    });
+
+    it('should record token positions', () => {
+      const [first, operator, second] = tokenize('a.b | c.d');
+
+      expect([first.start, first.end]).toEqual([0, 3]);
+      expect([operator.start, operator.end]).toEqual([4, 5]);
+      expect([second.start, second.end]).toEqual([6, 9]);
+    });
+
+    it('should reject characters outside the grammar', () => {
+      expect(() => tokenize('users.create; alert(1)')).toThrow(
+        ExpressionSyntaxError
+      );
+    });
+  });
+
+  describe('parseExpression', () => {
+    it('should give && higher precedence than ||', () => {
+      const ast = parseExpression('a || b && c');
+
+      expect(ast.type).toBe('or');
+      expect(ast.type === 'or' && ast.right.type).toBe('and');
+    });
+
+    it('should treat single and double operators the same', () => {
+      const ast = parseExpression('a | b & c');
+
+      expect(ast.type).toBe('or');
+      expect(ast.type === 'or' && ast.right.type).toBe('and');
+    });
+
+    it('should parse boolean literals', () => {
+      expect(parseExpression('true')).toEqual({
+        type: 'literal',
+        value: true,
+        start: 0,
+        end: 4,
+      });
+    });
+
+    it('should throw on malformed expressions', () => {
+      expect(() => parseExpression('')).toThrow(ExpressionSyntaxError);
+      expect(() => parseExpression('a ||')).toThrow(ExpressionSyntaxError);
+      expect(() => parseExpression('(a')).toThrow(ExpressionSyntaxError);
+      expect(() => parseExpression('a)')).toThrow(ExpressionSyntaxError);
+      expect(() => parseExpression('a b')).toThrow(ExpressionSyntaxError);
+      expect(() => parseExpression('a ||| b')).toThrow(ExpressionSyntaxError);
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    it('should short-circuit && and ||', () => {
+      const matches = jest.fn((matcher: PatternMatcher) => matcher.test('a'));
+      const context = { matches, collect: () => [] };
+
+      expect(evaluateExpression(parseExpression('a || b'), context)).toBe(true);
+      expect(evaluateExpression(parseExpression('b && a'), context)).toBe(
+        false
+      );
+      expect(matches.mock.calls.map(([matcher]) => matcher.pattern)).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    it('should apply negation', () => {
+      const context = {
+        matches: (matcher: PatternMatcher) => matcher.test('a'),
+        collect: () => [],
+      };
+
+      expect(evaluateExpression(parseExpression('!a'), context)).toBe(false);
+      expect(evaluateExpression(parseExpression('!b && a'), context)).toBe(
+        true
+      );
+      expect(evaluateExpression(parseExpression('!!a'), context)).toBe(true);
+    });
+  });
+
+  describe('usePermissions without dynamic code generation', () => {
+    it('should evaluate expressions without calling Function', () => {
+      mockPageProps(['users.create', 'admin.access']);
+      const functionSpy = jest.spyOn(globalThis, 'Function');
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression('(users.* || posts.*) && admin.access')
+      ).toBe(true);
+      expect(result.current.hasPermission('users.* && !admin.access')).toBe(
+        false
+      );
+      expect(result.current.isValidExpression('users.* &&')).toBe(false);
+      expect(functionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should keep working when Function is blocked by a CSP', () => {
+      mockPageProps(['properties.view-all']);
+      jest.spyOn(globalThis, 'Function').mockImplementation(() => {
+        throw new EvalError('Refused to evaluate a string as JavaScript');
+      });
+
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.hasPermission('properties.view-all||properties.view-own')
+      ).toBe(true);
+      expect(result.current.isValidExpression('a.b && (c.d || e.f)')).toBe(
+        true
+      );
+    });
+  });
+});
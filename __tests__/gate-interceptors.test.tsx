@@ -0,0 +1,165 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+import { clearGates, defineAfter, defineBefore, defineGate } from '../lib/gate';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Gate before/after interceptors', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    clearGates();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (
+    userPermissions: string[] = [],
+    user: Record<string, unknown> | null = { id: 1 }
+  ) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: user && { ...user, permissions: userPermissions },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('before', () => {
+    it('should let a super-admin pass every check', () => {
+      defineBefore(user => (user?.is_super_admin ? true : undefined));
+      defineGate('delete-post', () => false);
+      mockPageProps([], { id: 1, is_super_admin: true });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('users.delete')).toBe(true);
+      expect(result.current.hasAnyPermission(['a.b'])).toBe(true);
+      expect(result.current.hasAllPermissions(['a.b', 'c.d'])).toBe(true);
+      expect(result.current.hasPermissionPattern('admin.*')).toBe(true);
+      expect(result.current.hasAnyPattern(['admin.*'])).toBe(true);
+      expect(result.current.checkExpression('a.b && c.d')).toBe(true);
+      expect(result.current.can('delete-post')).toBe(true);
+    });
+
+    it('should fall through when returning undefined', () => {
+      defineBefore(user => (user?.is_super_admin ? true : undefined));
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('users.create')).toBe(true);
+      expect(result.current.hasPermission('users.delete')).toBe(false);
+    });
+
+    it('should stop at the first callback that decides', () => {
+      const second = jest.fn(() => true);
+      defineBefore(() => undefined);
+      defineBefore((user, ability) =>
+        ability.startsWith('billing.') ? false : undefined
+      );
+      defineBefore(second);
+      mockPageProps(['billing.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('billing.view')).toBe(false);
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should receive the checked ability, arguments and helpers', () => {
+      const before = jest.fn(
+        (user, ability: string, args: unknown[]): boolean | undefined => {
+          expect(user?.hasPermission).toEqual(expect.any(Function));
+          expect(ability).toBe('update-post');
+          expect(args).toEqual([{ id: 3 }]);
+          return undefined;
+        }
+      );
+      defineBefore(before);
+      defineGate('update-post', () => true);
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('update-post', { id: 3 })).toBe(true);
+      expect(before).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass null for guests', () => {
+      const before = jest.fn(() => undefined);
+      defineBefore(before);
+      mockPageProps([], null);
+      const { result } = renderHook(() => usePermissions(['users.create']));
+
+      expect(result.current.hasPermission('users.create')).toBe(true);
+      expect(before).toHaveBeenCalledWith(null, 'users.create', []);
+    });
+  });
+
+  describe('after', () => {
+    it('should replace or keep the result', () => {
+      defineAfter(user => (user?.suspended ? false : undefined));
+      mockPageProps(['users.create'], { id: 1, suspended: true });
+      const suspended = renderHook(() => usePermissions());
+      expect(suspended.result.current.hasPermission('users.create')).toBe(
+        false
+      );
+
+      mockPageProps(['users.create']);
+      const active = renderHook(() => usePermissions());
+      expect(active.result.current.hasPermission('users.create')).toBe(true);
+    });
+
+    it('should run once per check and see the result', () => {
+      const after = jest.fn(() => undefined);
+      defineAfter(after);
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      result.current.hasPermission('users.* && !admin.access');
+
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(after).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        'users.* && !admin.access',
+        true,
+        []
+      );
+    });
+  });
+
+  describe('<Can>', () => {
+    it('should run interceptors for every kind of prop', () => {
+      defineBefore(user => (user?.is_super_admin ? true : undefined));
+      mockPageProps([], { id: 1, is_super_admin: true });
+
+      render(
+        <>
+          <Can permission="users.delete">
+            <div>Permission</div>
+          </Can>
+          <Can expression="admin.* && billing.*">
+            <div>Expression</div>
+          </Can>
+          <Can allPatterns={['a.*', 'b.*']}>
+            <div>Patterns</div>
+          </Can>
+        </>
+      );
+
+      expect(screen.getByText('Permission')).toBeInTheDocument();
+      expect(screen.getByText('Expression')).toBeInTheDocument();
+      expect(screen.getByText('Patterns')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { clearGates, defineGate, definePolicy } from '../lib/gate';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+interface Post {
+  id: number;
+  user_id: number;
+}
+
+describe('Gates and policies', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    defineGate(
+      'update-post',
+      (user, post: Post) =>
+        user.id === post.user_id || user.hasPermission('posts.edit-any')
+    );
+    defineGate(
+      'approve-invoice',
+      (user, invoice: { total: number }) =>
+        invoice.total <= Number(user.approval_limit)
+    );
+  });
+
+  afterEach(() => {
+    clearGates();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (
+    userPermissions: string[] = [],
+    user: Record<string, unknown> | null = { id: 1 }
+  ) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: user && { ...user, permissions: userPermissions },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const ownPost: Post = { id: 10, user_id: 1 };
+  const otherPost: Post = { id: 11, user_id: 2 };
+
+  describe('can()', () => {
+    it('should pass the user and arguments to the gate', () => {
+      mockPageProps([], { id: 1, approval_limit: 500 });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('update-post', ownPost)).toBe(true);
+      expect(result.current.can('update-post', otherPost)).toBe(false);
+      expect(result.current.can('approve-invoice', { total: 200 })).toBe(true);
+      expect(result.current.can('approve-invoice', { total: 900 })).toBe(false);
+    });
+
+    it('should let gates use the permission helpers', () => {
+      mockPageProps(['posts.edit-any']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('update-post', otherPost)).toBe(true);
+    });
+
+    it('should deny guests without calling the gate', () => {
+      const gate = jest.fn(() => true);
+      defineGate('anything', gate);
+      mockPageProps([], null);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('anything')).toBe(false);
+      expect(gate).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to permissions for abilities without a gate', () => {
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('users.create')).toBe(true);
+      expect(result.current.can('users.*')).toBe(true);
+      expect(result.current.can('users.delete')).toBe(false);
+    });
+
+    it('should treat a throwing gate as denied', () => {
+      defineGate('broken', () => {
+        throw new Error('boom');
+      });
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('broken')).toBe(false);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Gate check failed:',
+        'broken',
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe('definePolicy', () => {
+    it('should register each method as a gate with before running first', () => {
+      definePolicy('post', {
+        before: user => (user.hasPermission('posts.admin') ? true : undefined),
+        delete: (user, post: Post) => user.id === post.user_id,
+      });
+
+      mockPageProps([]);
+      const member = renderHook(() => usePermissions());
+      expect(member.result.current.can('post.delete', ownPost)).toBe(true);
+      expect(member.result.current.can('post.delete', otherPost)).toBe(false);
+
+      mockPageProps(['posts.admin']);
+      const admin = renderHook(() => usePermissions());
+      expect(admin.result.current.can('post.delete', otherPost)).toBe(true);
+    });
+  });
+
+  describe('components', () => {
+    it('should check abilities through <Can ability args> and withPermission', () => {
+      mockPageProps([]);
+      const Editor = () => <div>Post editor</div>;
+      const ProtectedEditor = withPermission(Editor, {
+        ability: 'update-post',
+        args: [ownPost],
+      });
+
+      render(
+        <>
+          <Can ability="update-post" args={[ownPost]}>
+            <div>Edit own post</div>
+          </Can>
+          <Can
+            ability="update-post"
+            args={[otherPost]}
+            fallback={<div>Not your post</div>}
+          >
+            <div>Edit other post</div>
+          </Can>
+          <ProtectedEditor />
+        </>
+      );
+
+      expect(screen.getByText('Edit own post')).toBeInTheDocument();
+      expect(screen.getByText('Not your post')).toBeInTheDocument();
+      expect(screen.getByText('Post editor')).toBeInTheDocument();
+    });
+  });
+});
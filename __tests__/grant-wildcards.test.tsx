@@ -0,0 +1,184 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Grant-Side Wildcards', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  it('should keep exact matching when the mode is off', () => {
+    mockPageProps(['users.*']);
+    const { result } = renderHook(() => usePermissions());
+
+    expect(result.current.hasPermission('users.create')).toBe(false);
+    expect(result.current.hasAnyPermission(['users.create'])).toBe(false);
+  });
+
+  describe('exact permission checks', () => {
+    it('should let a wildcard grant cover matching permissions', () => {
+      mockPageProps(['users.*', 'reports.view']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      expect(result.current.hasPermission('users.create')).toBe(true);
+      expect(result.current.hasPermission('reports.view')).toBe(true);
+      expect(result.current.hasPermission('posts.create')).toBe(false);
+    });
+
+    it('should give a super-admin * every permission', () => {
+      mockPageProps(['*']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      expect(result.current.hasPermission('anything.at.all')).toBe(true);
+      expect(result.current.hasAllPermissions(['a.b', 'c.d'])).toBe(true);
+    });
+
+    it('should be consistent for hasAnyPermission and hasAllPermissions', () => {
+      mockPageProps(['users.*', 'reports.view']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      expect(
+        result.current.hasAnyPermission(['posts.create', 'users.edit'])
+      ).toBe(true);
+      expect(
+        result.current.hasAllPermissions(['users.edit', 'reports.view'])
+      ).toBe(true);
+      expect(
+        result.current.hasAllPermissions(['users.edit', 'posts.create'])
+      ).toBe(false);
+    });
+
+    it('should honour the wildcard mode of the grant', () => {
+      mockPageProps(['users.*']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, {
+          grantWildcards: true,
+          wildcardMode: 'segment',
+        })
+      );
+
+      expect(result.current.hasPermission('users.create')).toBe(true);
+      expect(result.current.hasPermission('users.profile.delete')).toBe(false);
+    });
+  });
+
+  describe('pattern and expression checks', () => {
+    it('should match wildcard checks against wildcard grants in both directions', () => {
+      mockPageProps(['users.*']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      expect(result.current.hasPermissionPattern('users.*')).toBe(true);
+      expect(result.current.hasPermissionPattern('users.{create,edit}')).toBe(
+        true
+      );
+      expect(
+        result.current.checkExpression('users.create && !posts.create')
+      ).toBe(true);
+    });
+
+    it('should accept wildcard entries in hasAnyPermission and hasAllPermissions', () => {
+      mockPageProps(['users.create', 'posts.*']);
+      const plain = renderHook(() => usePermissions());
+      const granted = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      for (const { result } of [plain, granted]) {
+        expect(result.current.hasPermission('users.*')).toBe(true);
+        expect(result.current.hasAnyPermission(['admin.*', 'users.*'])).toBe(
+          true
+        );
+        expect(result.current.hasAllPermissions(['users.*', 'posts.*'])).toBe(
+          true
+        );
+        expect(result.current.hasAllPermissions(['users.*', 'admin.*'])).toBe(
+          false
+        );
+      }
+      expect(granted.result.current.hasAnyPermission(['posts.edit'])).toBe(
+        true
+      );
+      expect(plain.result.current.hasAnyPermission(['posts.edit'])).toBe(false);
+    });
+
+    it('should include covering grants in getMatchingPermissions and count()', () => {
+      mockPageProps(['users.*', 'users.create', 'posts.view']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { grantWildcards: true })
+      );
+
+      expect(result.current.getMatchingPermissions('users.edit')).toEqual([
+        'users.*',
+      ]);
+      expect(result.current.getMatchingPermissions('users.create')).toEqual([
+        'users.*',
+        'users.create',
+      ]);
+      expect(result.current.checkExpression('count(users.*) == 2')).toBe(true);
+    });
+  });
+
+  describe('components', () => {
+    it('should accept grantWildcards on <Can> and withPermission', () => {
+      mockPageProps(['users.*']);
+      const Button = () => <button>Delete user</button>;
+      const ProtectedButton = withPermission(Button, {
+        permission: 'users.delete',
+        grantWildcards: true,
+      });
+
+      render(
+        <>
+          <Can permission="users.create" grantWildcards>
+            <div>Create user</div>
+          </Can>
+          <Can permission="users.create" fallback={<div>Exact only</div>}>
+            <div>Not rendered</div>
+          </Can>
+          <ProtectedButton />
+        </>
+      );
+
+      expect(screen.getByText('Create user')).toBeInTheDocument();
+      expect(screen.getByText('Exact only')).toBeInTheDocument();
+      expect(screen.getByText('Delete user')).toBeInTheDocument();
+    });
+  });
+});
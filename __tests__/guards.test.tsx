@@ -0,0 +1,179 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+import { clearGates, defineGate } from '../lib/gate';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Guards', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+    clearGates();
+  });
+
+  const mockPageProps = (guards: Record<string, unknown>) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: { id: 1, permissions: ['legacy.permission'] },
+          guards,
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const bothGuards = {
+    web: { id: 1, permissions: ['posts.create', 'posts.view'] },
+    admin: {
+      id: 7,
+      permissions: ['settings.manage', 'users.delete'],
+      forbidden: ['users.delete'],
+    },
+  };
+
+  describe('guard selection', () => {
+    it('should use the web guard by default', () => {
+      mockPageProps(bothGuards);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.guard).toBe('web');
+      expect(result.current.userPermissions).toEqual([
+        'posts.create',
+        'posts.view',
+      ]);
+      expect(result.current.hasPermission('settings.manage')).toBe(false);
+      expect(result.current.hasPermission('legacy.permission')).toBe(false);
+    });
+
+    it('should use the guard option', () => {
+      mockPageProps(bothGuards);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { guard: 'admin' })
+      );
+
+      expect(result.current.guard).toBe('admin');
+      expect(result.current.userPermissions).toEqual(['settings.manage']);
+      expect(result.current.deniedPermissions).toEqual(['users.delete']);
+      expect(result.current.hasPermission('settings.manage')).toBe(true);
+      expect(result.current.hasPermission('posts.create')).toBe(false);
+    });
+
+    it('should use the configured default guard', () => {
+      configurePermissions({ guard: 'admin' });
+      mockPageProps(bothGuards);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.guard).toBe('admin');
+      expect(result.current.hasPermission('settings.manage')).toBe(true);
+
+      resetPermissionsConfig();
+      const reset = renderHook(() => usePermissions());
+      expect(reset.result.current.guard).toBe('web');
+    });
+
+    it('should keep using auth.user without guards', () => {
+      mockUsePage.mockReturnValue({
+        props: {
+          auth: { user: { permissions: ['legacy.permission'] } },
+          errors: {},
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { guard: 'admin' })
+      );
+
+      expect(result.current.isAuthenticated).toBe(true);
+      expect(result.current.hasPermission('legacy.permission')).toBe(true);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should treat a guard without a user as a guest', () => {
+      mockPageProps({ web: bothGuards.web, admin: null });
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { guard: 'admin' })
+      );
+
+      expect(result.current.isAuthenticated).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+
+    it('should treat a missing guard as a guest', () => {
+      mockPageProps(bothGuards);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { guard: 'api' })
+      );
+
+      expect(result.current.isAuthenticated).toBe(false);
+    });
+
+    it('should pass the guard user to gates', () => {
+      defineGate('is-user', (user, id: number) => user.id === id);
+      mockPageProps(bothGuards);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { guard: 'admin' })
+      );
+
+      expect(result.current.can('is-user', 7)).toBe(true);
+      expect(result.current.can('is-user', 1)).toBe(false);
+    });
+  });
+
+  describe('Can and withPermission', () => {
+    it('should check the guard prop', () => {
+      mockPageProps(bothGuards);
+      render(
+        <>
+          <Can permission="settings.manage" guard="admin">
+            <div>Admin settings</div>
+          </Can>
+          <Can permission="settings.manage" fallback={<div>Web denied</div>}>
+            <div>Web settings</div>
+          </Can>
+        </>
+      );
+
+      expect(screen.getByText('Admin settings')).toBeInTheDocument();
+      expect(screen.getByText('Web denied')).toBeInTheDocument();
+    });
+
+    it('should require authentication on the selected guard', () => {
+      mockPageProps({ web: bothGuards.web, admin: null });
+      render(
+        <Can permission="true" guard="admin" fallback={<div>Sign in</div>}>
+          <div>Admin</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Sign in')).toBeInTheDocument();
+    });
+
+    it('should pass the guard option through withPermission', () => {
+      mockPageProps(bothGuards);
+      const Panel = () => <div>Settings</div>;
+      const Protected = withPermission(Panel, {
+        permission: 'settings.manage',
+        guard: 'admin',
+      });
+      render(<Protected />);
+
+      expect(screen.getByText('Settings')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Operator grammar - negation, word operators and xor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('negation', () => {
+    it('should negate a bare permission in hasPermission', () => {
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('!admin.access')).toBe(true);
+      expect(result.current.hasPermission('!users.create')).toBe(false);
+      expect(result.current.hasPermission('not admin.access')).toBe(true);
+      expect(result.current.hasPermission('NOT users.create')).toBe(false);
+    });
+
+    it('should negate wildcards and groups', () => {
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('!admin.*')).toBe(true);
+      expect(result.current.hasPermission('!(users.* || posts.*)')).toBe(false);
+      expect(result.current.checkExpression('not not users.create')).toBe(true);
+    });
+  });
+
+  describe('word operators', () => {
+    it('should accept and / or keywords', () => {
+      mockPageProps(['users.create', 'posts.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('users.create and posts.view')).toBe(
+        true
+      );
+      expect(result.current.hasPermission('users.delete or posts.*')).toBe(
+        true
+      );
+      expect(
+        result.current.checkExpression('users.delete AND posts.view')
+      ).toBe(false);
+      expect(
+        result.current.hasPermissionPattern('(users.* Or admin.*) and true')
+      ).toBe(true);
+    });
+
+    it('should not treat permission names containing keywords as operators', () => {
+      mockPageProps(['orders.view', 'vendor.android', 'notes.edit']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('orders.view')).toBe(true);
+      expect(result.current.hasPermission('vendor.android && notes.edit')).toBe(
+        true
+      );
+      expect(result.current.hasPermission('orders.* and not.*')).toBe(false);
+    });
+
+    it('should match permission names with spaces exactly', () => {
+      mockPageProps(['edit articles', 'log in users']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('edit articles')).toBe(true);
+      expect(result.current.hasAnyPermission(['edit articles'])).toBe(true);
+      expect(result.current.hasPermission('log in users')).toBe(true);
+      expect(result.current.hasPermission('delete articles')).toBe(false);
+      expect(
+        result.current.hasPermission('edit articles && log in users')
+      ).toBe(false);
+      expect(console.warn).not.toHaveBeenCalledWith(
+        'Invalid permission expression:',
+        'edit articles',
+        expect.anything()
+      );
+
+      render(
+        <Can permission="edit articles">
+          <div>Editor</div>
+        </Can>
+      );
+      expect(screen.getByText('Editor')).toBeInTheDocument();
+    });
+
+    it('should match names with word operators exactly before parsing them', () => {
+      mockPageProps(['read and write', 'import or export', 'users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('read and write')).toBe(true);
+      expect(result.current.hasPermission('import or export')).toBe(true);
+      expect(result.current.hasAllPermissions(['read and write'])).toBe(true);
+      expect(result.current.hasPermission('read or write')).toBe(false);
+      expect(
+        result.current.hasPermission('users.create and not posts.create')
+      ).toBe(true);
+    });
+
+    it('should not grant a negated plain name to users without it', () => {
+      mockPageProps(['edit articles']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('not applicable')).toBe(false);
+      expect(result.current.hasAnyPermission(['not applicable'])).toBe(false);
+      expect(result.current.hasPermission('not admin.access')).toBe(true);
+    });
+
+    it('should not treat Object.prototype keys as operators', () => {
+      mockPageProps(['constructor', '__proto__']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression('constructor && __proto__')).toBe(
+        true
+      );
+      expect(result.current.checkExpression('toString || constructor')).toBe(
+        true
+      );
+      expect(result.current.isValidExpression('hasOwnProperty')).toBe(true);
+    });
+  });
+
+  describe('xor', () => {
+    it('should pass when exactly one side passes', () => {
+      mockPageProps(['billing.approve']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.hasPermission('billing.approve xor finance.approve')
+      ).toBe(true);
+      expect(
+        result.current.hasPermission('billing.approve xor billing.*')
+      ).toBe(false);
+      expect(
+        result.current.hasPermission('finance.approve xor ceo.approve')
+      ).toBe(false);
+    });
+  });
+
+  describe('precedence', () => {
+    it('should bind not tighter than and, and tighter than xor, and xor tighter than or', () => {
+      mockPageProps(['a.one']);
+      const { result } = renderHook(() => usePermissions());
+
+      // !a.one && b.two => (!a.one) && b.two => false
+      expect(result.current.checkExpression('!a.one && b.two')).toBe(false);
+      // a.one || b.two && false => a.one || (b.two && false) => true
+      expect(result.current.checkExpression('a.one or b.two and false')).toBe(
+        true
+      );
+      // a.one xor true and false => a.one xor (true and false) => true
+      expect(result.current.checkExpression('a.one xor true and false')).toBe(
+        true
+      );
+      // false or a.one xor true => false or (a.one xor true) => false
+      expect(result.current.checkExpression('false or a.one xor true')).toBe(
+        false
+      );
+    });
+
+    it('should agree between hasPermission, checkExpression and <Can>', () => {
+      mockPageProps(['users.create', 'admin.access']);
+      const { result } = renderHook(() => usePermissions());
+
+      const expressions = [
+        '!admin.access',
+        'not posts.view and users.*',
+        'users.create xor admin.access or posts.view',
+        'users.* and !(posts.* or admin.access)',
+      ];
+
+      expressions.forEach(expression => {
+        const expected = result.current.checkExpression(expression);
+        expect(result.current.hasPermission(expression)).toBe(expected);
+
+        const { unmount } = render(
+          <Can expression={expression}>
+            <div>Visible</div>
+          </Can>
+        );
+        expect(screen.queryByText('Visible') !== null).toBe(expected);
+        unmount();
+      });
+    });
+  });
+
+  describe('<Can> with negation', () => {
+    it('should render for users without the negated permission', () => {
+      mockPageProps(['users.create']);
+
+      render(
+        <Can permission="!admin.access" fallback={<div>Admin</div>}>
+          <div>Upgrade to admin</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Upgrade to admin')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { PermissionsProvider } from '../components/permissions-provider';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+interface AppSharedData {
+  auth: {
+    user: { id: number; name: string } | null;
+    permissions: string[];
+    roles: string[];
+  };
+  permissions?: string[];
+  [key: string]: unknown;
+}
+
+describe('usePermissions - Payload Configuration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+  });
+
+  const mockPageProps = (props: Partial<AppSharedData>) => {
+    mockUsePage.mockReturnValue({
+      props: { errors: {}, ...props },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const sharedAuth = {
+    user: { id: 1, name: 'Jane' },
+    permissions: ['posts.create', 'posts.view'],
+    roles: ['editor'],
+  };
+
+  describe('selectors', () => {
+    it('should read permissions and roles from auth', () => {
+      configurePermissions<AppSharedData>({
+        permissions: props => props.auth.permissions,
+        roles: props => props.auth.roles,
+      });
+      mockPageProps({ auth: sharedAuth });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.isAuthenticated).toBe(true);
+      expect(result.current.userPermissions).toEqual([
+        'posts.create',
+        'posts.view',
+      ]);
+      expect(result.current.hasPermission('posts.*')).toBe(true);
+      expect(result.current.hasRole('editor')).toBe(true);
+    });
+
+    it('should read permissions from the page root', () => {
+      configurePermissions<AppSharedData>({
+        permissions: props => props.permissions,
+      });
+      mockPageProps({ auth: sharedAuth, permissions: ['reports.view'] });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual(['reports.view']);
+    });
+
+    it('should use the user selector for authentication', () => {
+      configurePermissions<AppSharedData>({
+        user: props => props.auth.user,
+        permissions: props => props.auth.permissions,
+      });
+      mockPageProps({ auth: { ...sharedAuth, user: null } });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.isAuthenticated).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+
+    it('should pass the selected user to the default selectors', () => {
+      configurePermissions<AppSharedData>({
+        user: props => props.currentUser as Record<string, unknown>,
+      });
+      mockPageProps({
+        currentUser: { id: 2, permissions: ['users.view'], roles: ['admin'] },
+      });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual(['users.view']);
+      expect(result.current.roles).toEqual(['admin']);
+    });
+
+    it('should keep the default shape without configuration', () => {
+      mockPageProps({
+        auth: { ...sharedAuth, user: { id: 1, name: 'Jane' } },
+      });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.isAuthenticated).toBe(true);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+  });
+
+  describe('precedence', () => {
+    it('should keep explicit permissions above the selectors', () => {
+      configurePermissions<AppSharedData>({
+        permissions: props => props.auth.permissions,
+      });
+      mockPageProps({ auth: sharedAuth });
+      const { result } = renderHook(() => usePermissions(['custom.one']));
+
+      expect(result.current.userPermissions).toEqual(['custom.one']);
+    });
+
+    it('should not apply the selectors to a provider', () => {
+      configurePermissions<AppSharedData>({
+        permissions: props => props.auth.permissions,
+      });
+      mockPageProps({ auth: sharedAuth });
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider permissions={['provided.one']}>
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.userPermissions).toEqual(['provided.one']);
+    });
+  });
+
+  describe('components', () => {
+    it('should flow through Can and withPermission', () => {
+      configurePermissions<AppSharedData>({
+        permissions: props => props.auth.permissions,
+      });
+      mockPageProps({ auth: sharedAuth });
+      const Panel = () => <div>Posts panel</div>;
+      const Protected = withPermission(Panel, { permission: 'posts.view' });
+      render(
+        <>
+          <Can permission="posts.create">
+            <div>Create post</div>
+          </Can>
+          <Protected />
+        </>
+      );
+
+      expect(screen.getByText('Create post')).toBeInTheDocument();
+      expect(screen.getByText('Posts panel')).toBeInTheDocument();
+    });
+  });
+});
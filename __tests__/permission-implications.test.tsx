@@ -0,0 +1,199 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+import { expandImplications } from '../lib/implications';
+import { type PermissionImplications } from '../types';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Permission implications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const implications: PermissionImplications = {
+    'posts.manage': [
+      'posts.view',
+      'posts.create',
+      'posts.edit',
+      'posts.delete',
+    ],
+    'admin.*': ['reports.view'],
+    'reports.view': ['dashboard.view'],
+  };
+
+  describe('expandImplications', () => {
+    it('should expand transitively and keep granted permissions first', () => {
+      expect(
+        expandImplications(['admin.users', 'posts.manage'], implications)
+      ).toEqual([
+        'admin.users',
+        'posts.manage',
+        'reports.view',
+        'posts.view',
+        'posts.create',
+        'posts.edit',
+        'posts.delete',
+        'dashboard.view',
+      ]);
+    });
+
+    it('should stop at cycles', () => {
+      const cyclic = { a: ['b'], b: ['c'], c: ['a', 'd'] };
+
+      expect(expandImplications(['a'], cyclic)).toEqual(['a', 'b', 'c', 'd']);
+      expect(expandImplications(['c'], cyclic)).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('should skip and warn about invalid keys', () => {
+      expect(
+        expandImplications(['posts.edit'], {
+          'posts.{': ['never'],
+          'posts.*': ['posts.view'],
+        })
+      ).toEqual(['posts.edit', 'posts.view']);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Invalid permission implication:',
+        'posts.{',
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe('usePermissions', () => {
+    it('should check implied permissions', () => {
+      mockPageProps(['posts.manage', 'admin.users']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { implications })
+      );
+
+      expect(result.current.hasPermission('posts.delete')).toBe(true);
+      expect(result.current.hasPermission('dashboard.view')).toBe(true);
+      expect(
+        result.current.hasAllPermissions(['posts.view', 'reports.view'])
+      ).toBe(true);
+      expect(result.current.hasPermission('users.delete')).toBe(false);
+      expect(result.current.checkExpression('count(posts.*) == 5')).toBe(true);
+    });
+
+    it('should expose the expanded set', () => {
+      mockPageProps(['posts.manage']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { implications })
+      );
+
+      expect(result.current.userPermissions).toEqual([
+        'posts.manage',
+        'posts.view',
+        'posts.create',
+        'posts.edit',
+        'posts.delete',
+      ]);
+      expect(
+        result.current.getMatchingPermissions('posts.{view,edit}')
+      ).toEqual(['posts.view', 'posts.edit']);
+    });
+
+    it('should apply to custom permissions', () => {
+      mockPageProps([]);
+      const { result } = renderHook(() =>
+        usePermissions(['admin.settings'], { implications })
+      );
+
+      expect(result.current.hasPermission('dashboard.view')).toBe(true);
+    });
+
+    it('should let denials override implied permissions', () => {
+      mockPageProps(['posts.manage', '-posts.delete', 'admin.users']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, {
+          implications: { ...implications, 'admin.users': ['posts.manage'] },
+        })
+      );
+
+      expect(result.current.hasPermission('posts.edit')).toBe(true);
+      expect(result.current.hasPermission('posts.delete')).toBe(false);
+      expect(result.current.userPermissions).not.toContain('posts.delete');
+    });
+
+    it('should not expand a denied permission', () => {
+      mockPageProps(['posts.manage', '-posts.manage']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { implications })
+      );
+
+      expect(result.current.hasPermission('posts.view')).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+  });
+
+  describe('<Can>', () => {
+    it('should accept an implications prop', () => {
+      mockPageProps(['posts.manage']);
+
+      render(
+        <>
+          <Can permission="posts.delete" implications={implications}>
+            <div>Delete post</div>
+          </Can>
+          <Can permission="posts.delete" fallback={<div>No implications</div>}>
+            <div>Not rendered</div>
+          </Can>
+        </>
+      );
+
+      expect(screen.getByText('Delete post')).toBeInTheDocument();
+      expect(screen.getByText('No implications')).toBeInTheDocument();
+    });
+  });
+
+  describe('configured map', () => {
+    it('should apply to checks that do not pass their own map', () => {
+      mockPageProps(['posts.manage']);
+      configurePermissions({ implications });
+
+      const configured = renderHook(() => usePermissions());
+      const overridden = renderHook(() =>
+        usePermissions(undefined, { implications: {} })
+      );
+
+      expect(configured.result.current.hasPermission('posts.edit')).toBe(true);
+      expect(overridden.result.current.hasPermission('posts.edit')).toBe(false);
+
+      render(
+        <Can permission="posts.view">
+          <div>Posts</div>
+        </Can>
+      );
+      expect(screen.getByText('Posts')).toBeInTheDocument();
+    });
+  });
+});
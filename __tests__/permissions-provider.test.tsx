@@ -0,0 +1,207 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { PermissionsProvider } from '../components/permissions-provider';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('PermissionsProvider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Outside an Inertia app, usePage throws
+    mockUsePage.mockImplementation(() => {
+      throw new Error('usePage must be used within the Inertia component');
+    });
+  });
+
+  const mockPageProps = (userPermissions: string[]) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: { user: { permissions: userPermissions } },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('usePermissions', () => {
+    it('should read permissions and roles from the provider', () => {
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider
+            permissions={['posts.create']}
+            roles={['editor']}
+          >
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.isAuthenticated).toBe(true);
+      expect(result.current.userPermissions).toEqual(['posts.create']);
+      expect(result.current.hasPermission('posts.*')).toBe(true);
+      expect(result.current.hasRole('editor')).toBe(true);
+    });
+
+    it('should read permissions and roles from the user', () => {
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider
+            user={{ id: 5, permissions: ['posts.view'], roles: ['author'] }}
+          >
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.hasPermission('posts.view')).toBe(true);
+      expect(result.current.roles).toEqual(['author']);
+    });
+
+    it('should prefer the permissions prop over user permissions', () => {
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider
+            user={{ permissions: ['posts.view'] }}
+            permissions={['users.view']}
+          >
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.userPermissions).toEqual(['users.view']);
+    });
+
+    it('should treat a null user as a guest', () => {
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider user={null} permissions={['posts.view']}>
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.isAuthenticated).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+
+    it('should treat an empty provider as a guest', () => {
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider>{children}</PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.isAuthenticated).toBe(false);
+    });
+
+    it('should keep explicit permissions above the provider', () => {
+      const { result } = renderHook(() => usePermissions(['reports.view']), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider permissions={['posts.create']}>
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.userPermissions).toEqual(['reports.view']);
+    });
+
+    it('should prefer the provider over the Inertia page', () => {
+      mockPageProps(['inertia.permission']);
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionsProvider permissions={['provided.permission']}>
+            {children}
+          </PermissionsProvider>
+        ),
+      });
+
+      expect(result.current.userPermissions).toEqual(['provided.permission']);
+    });
+
+    it('should fall back to the Inertia page without a provider', () => {
+      mockPageProps(['inertia.permission']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual(['inertia.permission']);
+    });
+
+    it('should throw outside Inertia without a provider', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() => renderHook(() => usePermissions())).toThrow(
+        'usePage must be used within the Inertia component'
+      );
+      jest.restoreAllMocks();
+    });
+
+    it('should not re-render consumers when the provider re-renders unchanged', () => {
+      const permissions = ['posts.create'];
+      let renders = 0;
+      const Consumer = React.memo(function Consumer() {
+        renders++;
+        usePermissions();
+        return null;
+      });
+
+      const { rerender } = render(
+        <PermissionsProvider permissions={permissions}>
+          <Consumer />
+        </PermissionsProvider>
+      );
+      rerender(
+        <PermissionsProvider permissions={permissions}>
+          <Consumer />
+        </PermissionsProvider>
+      );
+      expect(renders).toBe(1);
+
+      rerender(
+        <PermissionsProvider permissions={['posts.edit']}>
+          <Consumer />
+        </PermissionsProvider>
+      );
+      expect(renders).toBe(2);
+    });
+  });
+
+  describe('components', () => {
+    it('should render Can from the provider', () => {
+      render(
+        <PermissionsProvider permissions={['posts.create']}>
+          <Can permission="posts.create">
+            <div>Create</div>
+          </Can>
+          <Can permission="posts.delete" fallback={<div>No delete</div>}>
+            <div>Delete</div>
+          </Can>
+        </PermissionsProvider>
+      );
+
+      expect(screen.getByText('Create')).toBeInTheDocument();
+      expect(screen.getByText('No delete')).toBeInTheDocument();
+    });
+
+    it('should render withPermission from the provider', () => {
+      const Panel = () => <div>Panel</div>;
+      const Protected = withPermission(Panel, { permission: 'panel.view' });
+      render(
+        <PermissionsProvider permissions={['panel.view']}>
+          <Protected />
+        </PermissionsProvider>
+      );
+
+      expect(screen.getByText('Panel')).toBeInTheDocument();
+    });
+  });
+});
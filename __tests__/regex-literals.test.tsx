@@ -0,0 +1,135 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+import { tokenize } from '../lib/expression';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Regex literal leaves', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const legacy = '/^report_\\d{4}_q[1-4]\\.view$/';
+
+  describe('tokenize', () => {
+    it('should read a regex literal with its flags as one token', () => {
+      expect(tokenize('/a\\/b[/]c/i && users.*')).toEqual([
+        { type: 'regex', value: '/a\\/b[/]c/i', start: 0, end: 11 },
+        { type: 'and', value: '&&', start: 12, end: 14 },
+        { type: 'pattern', value: 'users.*', start: 15, end: 22 },
+      ]);
+    });
+  });
+
+  describe('matching', () => {
+    it('should test the regex against each permission', () => {
+      mockPageProps(['report_2023_q1.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression(legacy)).toBe(true);
+      expect(result.current.hasPermissionPattern(legacy)).toBe(true);
+      expect(result.current.hasPermission(legacy)).toBe(true);
+      expect(result.current.hasPermission('/^report_\\d{4}_q[5-8]/')).toBe(
+        false
+      );
+    });
+
+    it('should support flags and combine with other operators', () => {
+      mockPageProps(['LEGACY_EXPORT', 'users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression('/^legacy_/')).toBe(false);
+      expect(result.current.checkExpression('/^legacy_/i')).toBe(true);
+      expect(
+        result.current.checkExpression('/^legacy_/i && !(/^admin/ || posts.*)')
+      ).toBe(true);
+      expect(
+        result.current.checkExpression('count(/_export$/i, users.*) == 2')
+      ).toBe(true);
+    });
+
+    it('should report matched permissions in explainExpression', () => {
+      mockPageProps(['report_2023_q1.view', 'report_2024_q9.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.explainExpression(legacy)).toMatchObject({
+        type: 'permission',
+        expression: legacy,
+        result: true,
+        matches: ['report_2023_q1.view'],
+      });
+    });
+
+    it('should work in <Can permission>', () => {
+      mockPageProps(['report_2024_q4.view']);
+
+      render(
+        <Can permission={legacy} fallback={<div>No reports</div>}>
+          <div>Report archive</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Report archive')).toBeInTheDocument();
+    });
+  });
+
+  describe('validation', () => {
+    it('should surface invalid regexes instead of throwing', () => {
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.validateExpression('users.* && /(unclosed/').errors
+      ).toEqual([
+        expect.objectContaining({ code: 'invalid_regex', start: 11, end: 22 }),
+      ]);
+      expect(
+        result.current.validateExpression('/^users/g').errors[0]
+      ).toMatchObject({ code: 'invalid_regex', start: 8, end: 9 });
+      expect(
+        result.current.validateExpression('users.* || /^users').errors[0]
+      ).toMatchObject({ code: 'invalid_regex', start: 11, end: 18 });
+      expect(result.current.isValidExpression(legacy)).toBe(true);
+    });
+
+    it('should return false and warn when checking an invalid regex', () => {
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(() => result.current.checkExpression('/(/')).not.toThrow();
+      expect(result.current.checkExpression('/(/')).toBe(false);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Invalid permission expression:',
+        '/(/',
+        expect.any(Error)
+      );
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+import { clearGates, defineBefore, defineGate } from '../lib/gate';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+interface Post {
+  id: number;
+  title: string;
+  can?: Record<string, boolean>;
+}
+
+describe('usePermissions - Resource Abilities', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+    clearGates();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: { user: { id: 1, permissions: userPermissions } },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const post: Post = {
+    id: 7,
+    title: 'Hello',
+    can: { update: true, delete: false },
+  };
+
+  describe('canResource', () => {
+    it('should read abilities from the can key', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.canResource(post, 'update')).toBe(true);
+      expect(result.current.canResource(post, 'delete')).toBe(false);
+    });
+
+    it('should deny missing abilities by default', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.canResource(post, 'publish')).toBe(false);
+      expect(result.current.canResource({ id: 1 }, 'update')).toBe(false);
+      expect(result.current.canResource(null, 'update')).toBe(false);
+    });
+
+    it('should use the configured key and default', () => {
+      configurePermissions({ resourceKey: 'abilities', resourceDefault: true });
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      const comment = { abilities: { delete: false } };
+      expect(result.current.canResource(comment, 'delete')).toBe(false);
+      expect(result.current.canResource(comment, 'update')).toBe(true);
+      expect(result.current.canResource(post, 'delete')).toBe(true);
+    });
+
+    it('should run the interceptors with the resource', () => {
+      const before = jest.fn(() => undefined);
+      defineBefore(before);
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      result.current.canResource(post, 'update');
+      expect(before).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        'update',
+        [post]
+      );
+    });
+  });
+
+  describe('resource leaves in expressions', () => {
+    it('should check the resource given to checkExpression', () => {
+      mockPageProps(['posts.publish']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression('resource:update && posts.publish', post)
+      ).toBe(true);
+      expect(
+        result.current.checkExpression('resource:delete || posts.delete', post)
+      ).toBe(false);
+    });
+
+    it('should fail resource leaves without a resource', () => {
+      mockPageProps(['posts.publish']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression('resource:update')).toBe(false);
+      expect(result.current.hasPermission('resource:update')).toBe(false);
+    });
+
+    it('should explain resource leaves', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.explainExpression('resource:update', post)).toEqual(
+        { type: 'resource', expression: 'resource:update', result: true }
+      );
+    });
+
+    it('should reject a resource leaf without an ability', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.validateExpression('resource:').errors).toEqual([
+        {
+          message: "'resource:' needs an ability, e.g. resource:update",
+          code: 'invalid_argument',
+          start: 0,
+          end: 9,
+        },
+      ]);
+    });
+  });
+
+  describe('Can component', () => {
+    it('should check the ability on the resource', () => {
+      mockPageProps();
+      render(
+        <>
+          <Can ability="update" resource={post}>
+            <div>Edit</div>
+          </Can>
+          <Can ability="delete" resource={post} fallback={<div>No delete</div>}>
+            <div>Delete</div>
+          </Can>
+        </>
+      );
+
+      expect(screen.getByText('Edit')).toBeInTheDocument();
+      expect(screen.getByText('No delete')).toBeInTheDocument();
+    });
+
+    it('should deny a null resource instead of checking gates', () => {
+      defineGate('update', () => true);
+      mockPageProps();
+      render(
+        <Can ability="update" resource={null} fallback={<div>Loading</div>}>
+          <div>Edit</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Loading')).toBeInTheDocument();
+    });
+
+    it('should evaluate expressions against the resource', () => {
+      mockPageProps(['posts.publish']);
+      render(
+        <Can expression="resource:update && posts.publish" resource={post}>
+          <div>Publish</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Publish')).toBeInTheDocument();
+    });
+
+    it('should evaluate permission expressions against the resource', () => {
+      mockPageProps(['posts.publish']);
+      render(
+        <>
+          <Can permission="resource:update && posts.publish" resource={post}>
+            <div>Publish</div>
+          </Can>
+          <Can
+            permission="resource:delete || posts.delete"
+            resource={post}
+            fallback={<div>No delete</div>}
+          >
+            <div>Delete</div>
+          </Can>
+          <Can permission="posts.publish" resource={post}>
+            <div>Plain</div>
+          </Can>
+        </>
+      );
+
+      expect(screen.getByText('Publish')).toBeInTheDocument();
+      expect(screen.getByText('No delete')).toBeInTheDocument();
+      expect(screen.getByText('Plain')).toBeInTheDocument();
+    });
+  });
+
+  describe('withPermission', () => {
+    const Button = ({ post }: { post: Post }) => <div>Edit {post.title}</div>;
+
+    it('should read the resource from the props', () => {
+      mockPageProps();
+      const EditButton = withPermission(Button, {
+        ability: 'update',
+        resource: props => props.post,
+        fallback: <div>Read only</div>,
+      });
+      render(
+        <>
+          <EditButton post={post} />
+          <EditButton post={{ id: 8, title: 'Locked', can: {} }} />
+        </>
+      );
+
+      expect(screen.getByText('Edit Hello')).toBeInTheDocument();
+      expect(screen.getByText('Read only')).toBeInTheDocument();
+    });
+
+    it('should accept a fixed resource', () => {
+      mockPageProps();
+      const EditButton = withPermission(Button, {
+        ability: 'update',
+        resource: post,
+      });
+      render(<EditButton post={post} />);
+
+      expect(screen.getByText('Edit Hello')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { usePermissions } from '../hooks/use-permissions';
+import {
+  clearRoles,
+  defineRoles,
+  expandRoles,
+  RoleDefinitionError,
+} from '../lib/roles';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Role Definitions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    defineRoles({
+      author: { permissions: ['posts.create', 'posts.edit-own'] },
+      editor: { inherits: ['author'], permissions: ['posts.publish'] },
+      admin: { inherits: ['editor'], permissions: ['users.manage'] },
+    });
+  });
+
+  afterEach(() => {
+    clearRoles();
+  });
+
+  const mockPageProps = (roles: string[], permissions?: string[]) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: { roles, permissions },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('expandRoles', () => {
+    it('should include inherited permissions', () => {
+      expect(expandRoles(['admin'])).toEqual([
+        'users.manage',
+        'posts.publish',
+        'posts.create',
+        'posts.edit-own',
+      ]);
+    });
+
+    it('should expand shared parents only once', () => {
+      defineRoles({
+        reviewer: { inherits: ['author'], permissions: ['posts.review'] },
+      });
+
+      expect(expandRoles(['editor', 'reviewer'])).toEqual([
+        'posts.publish',
+        'posts.create',
+        'posts.edit-own',
+        'posts.review',
+      ]);
+    });
+
+    it('should grant nothing for undefined roles', () => {
+      defineRoles({ guest: { inherits: ['visitor'] } });
+
+      expect(expandRoles(['guest', 'unknown'])).toEqual([]);
+    });
+
+    it('should cache the expansion per role set', () => {
+      const first = expandRoles(['author', 'editor']);
+
+      expect(expandRoles(['editor', 'author'])).toBe(first);
+      expect(expandRoles(['editor', 'author', 'editor'])).toBe(first);
+    });
+
+    it('should drop cached expansions when roles change', () => {
+      const before = expandRoles(['author']);
+      defineRoles({ author: { permissions: ['posts.draft'] } });
+
+      expect(expandRoles(['author'])).not.toBe(before);
+      expect(expandRoles(['editor'])).toEqual(['posts.publish', 'posts.draft']);
+    });
+  });
+
+  describe('cycle detection', () => {
+    it('should reject a cycle', () => {
+      expect(() => defineRoles({ author: { inherits: ['admin'] } })).toThrow(
+        new RoleDefinitionError(
+          'Role inheritance cycle: author -> admin -> editor -> author',
+          ['author', 'admin', 'editor', 'author']
+        )
+      );
+    });
+
+    it('should report the roles in the cycle', () => {
+      let thrown: unknown;
+      try {
+        defineRoles({ lead: { inherits: ['lead'] } });
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(RoleDefinitionError);
+      expect((thrown as RoleDefinitionError).cycle).toEqual(['lead', 'lead']);
+    });
+
+    it('should keep the previous definitions after a cycle', () => {
+      expect(() => defineRoles({ author: { inherits: ['editor'] } })).toThrow(
+        RoleDefinitionError
+      );
+
+      expect(expandRoles(['author'])).toEqual([
+        'posts.create',
+        'posts.edit-own',
+      ]);
+    });
+  });
+
+  describe('usePermissions', () => {
+    it('should derive permissions from roles', () => {
+      mockPageProps(['editor']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual([
+        'posts.publish',
+        'posts.create',
+        'posts.edit-own',
+      ]);
+      expect(result.current.hasPermission('posts.create')).toBe(true);
+      expect(result.current.hasPermission('users.manage')).toBe(false);
+      expect(result.current.hasRole('author')).toBe(false);
+    });
+
+    it('should merge role permissions with shared permissions', () => {
+      mockPageProps(['author'], ['comments.moderate', 'posts.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.userPermissions).toEqual([
+        'comments.moderate',
+        'posts.create',
+        'posts.edit-own',
+      ]);
+    });
+
+    it('should ignore roles for explicit permissions', () => {
+      mockPageProps(['admin']);
+      const { result } = renderHook(() => usePermissions(['reports.view']));
+
+      expect(result.current.userPermissions).toEqual(['reports.view']);
+    });
+
+    it('should work with Can', () => {
+      mockPageProps(['admin']);
+      render(
+        <Can permission="posts.* && users.manage">
+          <div>Dashboard</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Dashboard')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { Role } from '../components/role';
+import { UnlessRole } from '../components/unless-role';
+import { usePermissions } from '../hooks/use-permissions';
+import { clearGates, defineGate } from '../lib/gate';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Roles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    clearGates();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (
+    roles?: string[],
+    permissions: string[] = ['posts.publish']
+  ) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: roles === undefined ? null : { permissions, roles },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('hook helpers', () => {
+    it('should check roles', () => {
+      mockPageProps(['editor', 'writer']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.roles).toEqual(['editor', 'writer']);
+      expect(result.current.hasRole('editor')).toBe(true);
+      expect(result.current.hasRole('admin')).toBe(false);
+      expect(result.current.hasAnyRole(['admin', 'writer'])).toBe(true);
+      expect(result.current.hasAnyRole(['admin'])).toBe(false);
+      expect(result.current.hasAllRoles(['editor', 'writer'])).toBe(true);
+      expect(result.current.hasAllRoles(['editor', 'admin'])).toBe(false);
+    });
+
+    it('should have no roles for guests', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.roles).toEqual([]);
+      expect(result.current.hasRole('admin')).toBe(false);
+    });
+
+    it('should attach role helpers to the gate user', () => {
+      defineGate('moderate', user => user.hasAnyRole(['admin', 'moderator']));
+      mockPageProps(['moderator']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.can('moderate')).toBe(true);
+    });
+  });
+
+  describe('role leaves in expressions', () => {
+    it('should mix roles and permissions', () => {
+      mockPageProps(['editor']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression('role:admin || posts.*')).toBe(
+        true
+      );
+      expect(
+        result.current.checkExpression('role:editor && posts.publish')
+      ).toBe(true);
+      expect(result.current.checkExpression('role:admin && posts.*')).toBe(
+        false
+      );
+      expect(result.current.checkExpression('!role:admin')).toBe(true);
+    });
+
+    it('should check a single role leaf through hasPermission', () => {
+      mockPageProps(['editor']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('role:editor')).toBe(true);
+      expect(result.current.hasPermission('role:admin')).toBe(false);
+    });
+
+    it('should not match roles as permissions', () => {
+      mockPageProps(['editor'], ['editor']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression('role:editor')).toBe(true);
+      expect(result.current.checkExpression('posts.* || role:admin')).toBe(
+        false
+      );
+    });
+
+    it('should explain role leaves', () => {
+      mockPageProps(['editor']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.explainExpression('role:editor || posts.publish')
+          .children?.[0]
+      ).toEqual({ type: 'role', expression: 'role:editor', result: true });
+    });
+
+    it('should reject a role leaf without a name', () => {
+      mockPageProps(['editor']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.validateExpression('role: || posts.*')).toEqual({
+        valid: false,
+        errors: [
+          {
+            message: "'role:' needs a role name, e.g. role:admin",
+            code: 'invalid_argument',
+            start: 0,
+            end: 5,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('Role component', () => {
+    it('should render for a matching role', () => {
+      mockPageProps(['admin']);
+      render(
+        <Role is="admin">
+          <div>Admin</div>
+        </Role>
+      );
+
+      expect(screen.getByText('Admin')).toBeInTheDocument();
+    });
+
+    it('should render the fallback without the role', () => {
+      mockPageProps(['writer']);
+      render(
+        <Role any={['admin', 'editor']} fallback={<div>Read only</div>}>
+          <div>Editor</div>
+        </Role>
+      );
+
+      expect(screen.getByText('Read only')).toBeInTheDocument();
+    });
+
+    it('should require all roles', () => {
+      mockPageProps(['finance']);
+      render(
+        <Role all={['finance', 'manager']} fallback={<div>Denied</div>}>
+          <div>Approve</div>
+        </Role>
+      );
+
+      expect(screen.getByText('Denied')).toBeInTheDocument();
+    });
+  });
+
+  describe('UnlessRole component', () => {
+    it('should render without the role', () => {
+      mockPageProps(['writer']);
+      render(
+        <UnlessRole is="subscriber">
+          <div>Subscribe</div>
+        </UnlessRole>
+      );
+
+      expect(screen.getByText('Subscribe')).toBeInTheDocument();
+    });
+
+    it('should render the fallback with any of the roles', () => {
+      mockPageProps(['moderator']);
+      render(
+        <UnlessRole any={['admin', 'moderator']} fallback={<div>Staff</div>}>
+          <div>Report</div>
+        </UnlessRole>
+      );
+
+      expect(screen.getByText('Staff')).toBeInTheDocument();
+      expect(screen.queryByText('Report')).not.toBeInTheDocument();
+    });
+
+    it('should render for guests', () => {
+      mockPageProps();
+      render(
+        <UnlessRole is="subscriber">
+          <div>Subscribe</div>
+        </UnlessRole>
+      );
+
+      expect(screen.getByText('Subscribe')).toBeInTheDocument();
+    });
+  });
+
+  describe('Can component', () => {
+    it('should evaluate role leaves in expressions', () => {
+      mockPageProps(['editor']);
+      render(
+        <Can expression="role:admin || (role:editor && posts.publish)">
+          <div>Publish</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Publish')).toBeInTheDocument();
+    });
+  });
+});
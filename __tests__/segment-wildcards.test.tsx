@@ -0,0 +1,214 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import { configurePermissions, resetPermissionsConfig } from '../lib/config';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Segment-Aware Wildcards', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetPermissionsConfig();
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      component: 'TestComponent',
+      url: '/test',
+      version: '1.0.0',
+      clearHistory: jest.fn(),
+      setError: jest.fn(),
+    } as unknown as ReturnType<typeof usePage>);
+  };
+
+  const nested = ['users.create', 'users.profile.delete.force', 'posts.view'];
+
+  describe('Default greedy mode', () => {
+    it('should keep matching nested permissions with a single *', () => {
+      mockPageProps(['users.profile.delete.force']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('users.*')).toBe(true);
+      expect(result.current.hasPermission('users.**')).toBe(true);
+      expect(result.current.getMatchingPermissions('*.force')).toEqual([
+        'users.profile.delete.force',
+      ]);
+    });
+  });
+
+  describe('Single * with segment mode', () => {
+    it('should match exactly one segment', () => {
+      mockPageProps(nested);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'segment' })
+      );
+
+      expect(result.current.hasPermission('users.*')).toBe(true);
+      expect(result.current.getMatchingPermissions('users.*')).toEqual([
+        'users.create',
+      ]);
+      expect(result.current.hasPermission('users.*.force')).toBe(false);
+      expect(result.current.hasPermission('*.view')).toBe(true);
+    });
+
+    it('should not let ? match a dot', () => {
+      mockPageProps(['users.create']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'segment' })
+      );
+
+      expect(result.current.hasPermission('users?create')).toBe(false);
+      expect(result.current.hasPermission('users.creat?')).toBe(true);
+    });
+  });
+
+  describe('Double ** with segment mode', () => {
+    it('should match any depth', () => {
+      mockPageProps(nested);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'segment' })
+      );
+
+      expect(result.current.getMatchingPermissions('users.**')).toEqual([
+        'users.create',
+        'users.profile.delete.force',
+      ]);
+      expect(result.current.hasPermission('**.force')).toBe(true);
+      expect(result.current.hasPermission('users.**.force')).toBe(true);
+      expect(result.current.hasPermission('posts.**.force')).toBe(false);
+    });
+  });
+
+  describe('Universal patterns with empty permissions', () => {
+    it('should allow access with * and ** when user has no permissions', () => {
+      mockPageProps([]);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'segment' })
+      );
+
+      expect(result.current.hasPermission('*')).toBe(true);
+      expect(result.current.hasPermission(' ** ')).toBe(true);
+      expect(result.current.hasAnyPattern(['users.*', '**'])).toBe(true);
+      expect(result.current.hasAllPatterns(['**', 'users.*'])).toBe(false);
+    });
+
+    it('should allow access with * when custom permissions are empty', () => {
+      mockPageProps(nested);
+      const { result } = renderHook(() =>
+        usePermissions([], { wildcardMode: 'segment' })
+      );
+
+      expect(result.current.hasPermission('*')).toBe(true);
+      expect(result.current.hasPermission('users.**')).toBe(false);
+      expect(result.current.userPermissions).toEqual([]);
+    });
+  });
+
+  describe('Complex expressions with segment mode', () => {
+    it('should apply the mode to every pattern in an expression', () => {
+      mockPageProps(nested);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'segment' })
+      );
+
+      expect(result.current.checkExpression('count(users.*) == 1')).toBe(true);
+      expect(result.current.checkExpression('count(users.**) == 2')).toBe(true);
+      expect(
+        result.current.checkExpression('users.*.force || posts.*.view')
+      ).toBe(false);
+      expect(result.current.explainExpression('users.*').matches).toEqual([
+        'users.create',
+      ]);
+    });
+
+    it('should not share compiled expressions between modes', () => {
+      mockPageProps(['users.profile.delete']);
+      const greedy = renderHook(() => usePermissions());
+      const segment = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'segment' })
+      );
+
+      expect(greedy.result.current.checkExpression('users.* && true')).toBe(
+        true
+      );
+      expect(segment.result.current.checkExpression('users.* && true')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('Components', () => {
+    it('should accept wildcardMode on <Can> and withPermission', () => {
+      mockPageProps(['users.profile.delete']);
+      const Panel = () => <div>Deep panel</div>;
+      const Protected = withPermission(Panel, {
+        permission: 'users.**',
+        wildcardMode: 'segment',
+      });
+
+      render(
+        <>
+          <Can
+            permission="users.*"
+            wildcardMode="segment"
+            fallback={<div>Segment fallback</div>}
+          >
+            <div>Segment content</div>
+          </Can>
+          <Can permission="users.*">
+            <div>Greedy content</div>
+          </Can>
+          <Protected />
+        </>
+      );
+
+      expect(screen.getByText('Segment fallback')).toBeInTheDocument();
+      expect(screen.getByText('Greedy content')).toBeInTheDocument();
+      expect(screen.getByText('Deep panel')).toBeInTheDocument();
+    });
+  });
+
+  describe('Configured default mode', () => {
+    it('should use the configured mode unless a check passes its own', () => {
+      mockPageProps(['users.profile.delete']);
+      configurePermissions({ wildcardMode: 'segment' });
+
+      const configured = renderHook(() => usePermissions());
+      const overridden = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'greedy' })
+      );
+
+      expect(configured.result.current.hasPermission('users.*')).toBe(false);
+      expect(configured.result.current.hasPermission('users.**')).toBe(true);
+      expect(overridden.result.current.hasPermission('users.*')).toBe(true);
+
+      render(
+        <Can permission="users.*" fallback={<div>Configured fallback</div>}>
+          <div>Configured content</div>
+        </Can>
+      );
+      expect(screen.getByText('Configured fallback')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+import {
+  parseWildcardPermission,
+  wildcardImplies,
+} from '../lib/wildcard-permission';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('Spatie wildcard permissions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  const implies = (granted: string, requested: string) =>
+    wildcardImplies(
+      parseWildcardPermission(granted)!,
+      parseWildcardPermission(requested)!
+    );
+
+  describe('implies', () => {
+    it('should follow WildcardPermission::implies', () => {
+      expect(implies('posts:create,edit', 'posts:edit')).toBe(true);
+      expect(implies('posts:create,edit', 'posts:create,edit')).toBe(true);
+      expect(implies('posts:create', 'posts:create,edit')).toBe(false);
+      expect(implies('posts:*', 'posts:delete')).toBe(true);
+      expect(implies('articles:*:13', 'articles:view:13')).toBe(true);
+      expect(implies('articles:*:13', 'articles:view:14')).toBe(false);
+      // Fewer granted parts imply anything more specific
+      expect(implies('posts', 'posts:edit:7')).toBe(true);
+      // Extra granted parts must be wildcards
+      expect(implies('posts:*:*', 'posts')).toBe(true);
+      expect(implies('posts:edit', 'posts')).toBe(false);
+      // Requested wildcards are not expanded
+      expect(implies('posts:edit', 'posts:*')).toBe(false);
+      expect(implies('*', 'anything:at:all')).toBe(true);
+    });
+
+    it('should reject empty parts and subparts', () => {
+      expect(parseWildcardPermission('posts::edit')).toBeNull();
+      expect(parseWildcardPermission('posts:create,')).toBeNull();
+      expect(parseWildcardPermission('posts:create,edit')).toEqual([
+        ['posts'],
+        ['create', 'edit'],
+      ]);
+    });
+  });
+
+  describe('usePermissions', () => {
+    const granted = ['posts:create,edit', 'articles:*:13', 'reports'];
+
+    it('should match plain permissions through implication', () => {
+      mockPageProps(granted);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'spatie' })
+      );
+
+      expect(result.current.hasPermission('posts:edit')).toBe(true);
+      expect(result.current.hasPermission('posts:delete')).toBe(false);
+      expect(result.current.hasPermission('articles:view:13')).toBe(true);
+      expect(result.current.hasPermission('reports:view:2024')).toBe(true);
+      expect(result.current.hasAnyPermission(['posts:delete', 'reports'])).toBe(
+        true
+      );
+      expect(
+        result.current.hasAllPermissions(['posts:create', 'articles:edit:13'])
+      ).toBe(true);
+      expect(
+        result.current.hasAllPermissions(['posts:create', 'articles:edit:14'])
+      ).toBe(false);
+    });
+
+    it('should keep subparts together in requested permissions', () => {
+      mockPageProps(granted);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'spatie' })
+      );
+
+      expect(result.current.hasPermission('posts:create,edit')).toBe(true);
+      expect(result.current.hasPermission('posts:create,delete')).toBe(false);
+      expect(result.current.getMatchingPermissions('posts:create')).toEqual([
+        'posts:create,edit',
+      ]);
+    });
+
+    it('should evaluate expressions of Spatie permissions', () => {
+      mockPageProps(granted);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'spatie' })
+      );
+
+      expect(
+        result.current.checkExpression('posts:edit && !articles:delete:14')
+      ).toBe(true);
+      expect(
+        result.current.checkExpression(
+          'atLeast(2, posts:create,edit, articles:view:13, posts:delete)'
+        )
+      ).toBe(true);
+      expect(
+        result.current.checkExpression('count(posts:edit, reports:x) == 2')
+      ).toBe(true);
+    });
+
+    it('should not treat a bare * as universal', () => {
+      mockPageProps([]);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'spatie' })
+      );
+
+      expect(result.current.hasPermission('*')).toBe(false);
+    });
+
+    it('should report malformed permissions', () => {
+      mockPageProps(['posts::edit', 'reports']);
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { wildcardMode: 'spatie' })
+      );
+
+      // A malformed grant never implies anything
+      expect(result.current.hasPermission('posts:edit')).toBe(false);
+      expect(result.current.hasPermission('reports::view')).toBe(false);
+      expect(
+        result.current.validateExpression('reports && posts:edit,').errors[0]
+      ).toMatchObject({ code: 'missing_operator', start: 21, end: 22 });
+      expect(
+        result.current.validateExpression('reports && posts::edit').errors[0]
+      ).toMatchObject({ code: 'invalid_pattern', start: 11, end: 22 });
+    });
+  });
+
+  describe('components', () => {
+    it('should accept the spatie mode on <Can> and withPermission', () => {
+      mockPageProps(['posts:*']);
+      const Button = () => <button>Delete post</button>;
+      const ProtectedButton = withPermission(Button, {
+        permission: 'posts:delete',
+        wildcardMode: 'spatie',
+      });
+
+      render(
+        <>
+          <Can permission="posts:edit" wildcardMode="spatie">
+            <div>Edit post</div>
+          </Can>
+          <Can
+            permission="articles:edit"
+            wildcardMode="spatie"
+            fallback={<div>No articles</div>}
+          >
+            <div>Edit article</div>
+          </Can>
+          <ProtectedButton />
+        </>
+      );
+
+      expect(screen.getByText('Edit post')).toBeInTheDocument();
+      expect(screen.getByText('No articles')).toBeInTheDocument();
+      expect(screen.getByText('Delete post')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Can } from '../components/can';
+import { PermissionTeamScope } from '../components/permission-team-scope';
+import { withPermission } from '../components/with-permission';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Team Permissions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const teamPermissions = {
+    1: ['projects.create', 'projects.view'],
+    2: ['projects.view', 'billing.manage'],
+  };
+
+  const mockPageProps = (
+    user: Record<string, unknown> = {},
+    permissions: string[] = ['profile.edit']
+  ) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions,
+            team_permissions: teamPermissions,
+            ...user,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('active team', () => {
+    it('should use the current team from props', () => {
+      mockPageProps({ current_team_id: 1 });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.activeTeam).toBe(1);
+      expect(result.current.userPermissions).toEqual([
+        'projects.create',
+        'projects.view',
+      ]);
+      expect(result.current.hasPermission('projects.create')).toBe(true);
+      expect(result.current.hasPermission('billing.manage')).toBe(false);
+      expect(result.current.hasPermission('profile.edit')).toBe(false);
+    });
+
+    it('should fall back to the flat permissions without an active team', () => {
+      mockPageProps();
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.activeTeam).toBeNull();
+      expect(result.current.hasPermission('profile.edit')).toBe(true);
+      expect(result.current.hasPermission('projects.view')).toBe(false);
+    });
+
+    it('should ignore the current team without team permissions', () => {
+      mockPageProps({ current_team_id: 1, team_permissions: undefined });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.activeTeam).toBeNull();
+      expect(result.current.hasPermission('profile.edit')).toBe(true);
+    });
+
+    it('should grant nothing for a team without permissions', () => {
+      mockPageProps({ current_team_id: 3 });
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.activeTeam).toBe(3);
+      expect(result.current.userPermissions).toEqual([]);
+      expect(result.current.hasPermission('projects.view')).toBe(false);
+    });
+
+    it('should prefer the team option over the current team', () => {
+      mockPageProps({ current_team_id: 1 });
+      const { result } = renderHook(() =>
+        usePermissions(undefined, { team: '2' })
+      );
+
+      expect(result.current.activeTeam).toBe('2');
+      expect(result.current.hasPermission('billing.manage')).toBe(true);
+      expect(result.current.hasPermission('projects.create')).toBe(false);
+    });
+
+    it('should keep explicit permissions above team permissions', () => {
+      mockPageProps({ current_team_id: 1 });
+      const { result } = renderHook(() =>
+        usePermissions(['custom.permission'], { team: 2 })
+      );
+
+      expect(result.current.userPermissions).toEqual(['custom.permission']);
+      expect(result.current.hasPermission('billing.manage')).toBe(false);
+    });
+  });
+
+  describe('PermissionTeamScope', () => {
+    it('should scope checks to its team', () => {
+      mockPageProps({ current_team_id: 1 });
+      const { result } = renderHook(() => usePermissions(), {
+        wrapper: ({ children }) => (
+          <PermissionTeamScope teamId={2}>{children}</PermissionTeamScope>
+        ),
+      });
+
+      expect(result.current.activeTeam).toBe(2);
+      expect(result.current.hasPermission('billing.manage')).toBe(true);
+    });
+
+    it('should use the nearest scope', () => {
+      mockPageProps();
+      render(
+        <PermissionTeamScope teamId={1}>
+          <PermissionTeamScope teamId={2}>
+            <Can permission="billing.manage" fallback={<div>Denied</div>}>
+              <div>Billing</div>
+            </Can>
+          </PermissionTeamScope>
+        </PermissionTeamScope>
+      );
+
+      expect(screen.getByText('Billing')).toBeInTheDocument();
+    });
+  });
+
+  describe('Can and withPermission', () => {
+    it('should evaluate against the active team', () => {
+      mockPageProps({ current_team_id: 1 });
+      render(
+        <Can permission="billing.manage" fallback={<div>Denied</div>}>
+          <div>Billing</div>
+        </Can>
+      );
+
+      expect(screen.getByText('Denied')).toBeInTheDocument();
+    });
+
+    it('should check another team through the team prop', () => {
+      mockPageProps({ current_team_id: 1 });
+      render(
+        <PermissionTeamScope teamId={1}>
+          <Can permission="billing.manage" team={2}>
+            <div>Billing</div>
+          </Can>
+        </PermissionTeamScope>
+      );
+
+      expect(screen.getByText('Billing')).toBeInTheDocument();
+    });
+
+    it('should pass the team option through withPermission', () => {
+      mockPageProps({ current_team_id: 2 });
+      const Panel = () => <div>Projects</div>;
+      const Protected = withPermission(Panel, {
+        permission: 'projects.create',
+        team: 1,
+      });
+      render(<Protected />);
+
+      expect(screen.getByText('Projects')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { renderHook } from '@testing-library/react';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - Threshold and Counting Operators', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPageProps = (userPermissions: string[] = []) => {
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: userPermissions,
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  };
+
+  describe('atLeast / atMost / exactly', () => {
+    it('should require at least two of three approvals', () => {
+      mockPageProps(['billing.approve', 'ceo.approve']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression(
+          'atLeast(2, billing.approve, finance.approve, ceo.approve)'
+        )
+      ).toBe(true);
+      expect(
+        result.current.checkExpression(
+          'atLeast(3, billing.approve, finance.approve, ceo.approve)'
+        )
+      ).toBe(false);
+    });
+
+    it('should accept sub-expressions as operands', () => {
+      mockPageProps(['reports.view', 'users.create']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression(
+          'atLeast(2, reports.*, users.* && !admin.access, posts.*)'
+        )
+      ).toBe(true);
+    });
+
+    it('should support atMost and exactly', () => {
+      mockPageProps(['a.one', 'b.two']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.checkExpression('atMost(1, a.*, b.*, c.*)')).toBe(
+        false
+      );
+      expect(result.current.checkExpression('atMost(2, a.*, b.*, c.*)')).toBe(
+        true
+      );
+      expect(result.current.checkExpression('exactly(2, a.*, b.*, c.*)')).toBe(
+        true
+      );
+      expect(result.current.checkExpression('exactly(1, a.*, b.*, c.*)')).toBe(
+        false
+      );
+    });
+
+    it('should match function names case-insensitively and combine with operators', () => {
+      mockPageProps(['a.one', 'admin.access']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.hasPermission('ATLEAST(1, a.*, b.*) && admin.access')
+      ).toBe(true);
+      expect(result.current.hasPermission('!atleast(1, b.*, c.*)')).toBe(true);
+    });
+  });
+
+  describe('count()', () => {
+    it('should count matching permissions like getMatchingPermissions', () => {
+      mockPageProps([
+        'users.create',
+        'users.edit',
+        'users.delete',
+        'reports.view',
+      ]);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.getMatchingPermissions('users.*')).toHaveLength(3);
+      expect(result.current.checkExpression('count(users.*) >= 3')).toBe(true);
+      expect(result.current.checkExpression('count(users.*) > 3')).toBe(false);
+      expect(result.current.checkExpression('count(users.*) == 3')).toBe(true);
+      expect(result.current.checkExpression('count(posts.*) != 0')).toBe(false);
+      expect(result.current.checkExpression('2 < count(users.*)')).toBe(true);
+    });
+
+    it('should combine counts with other permissions', () => {
+      mockPageProps([
+        'users.create',
+        'users.edit',
+        'users.delete',
+        'reports.view',
+      ]);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression(
+          'count(reports.*) >= 1 && count(users.*) >= 3'
+        )
+      ).toBe(true);
+      expect(
+        result.current.hasPermission('count(reports.*)>=2 || admin.access')
+      ).toBe(false);
+    });
+
+    it('should count each permission once across several patterns', () => {
+      mockPageProps(['users.create', 'users.edit']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.checkExpression('count(users.*, *.create) == 2')
+      ).toBe(true);
+    });
+
+    it('should still treat numeric permission names as permissions', () => {
+      mockPageProps(['2fa.enable', '2']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(result.current.hasPermission('2fa.enable && 2')).toBe(true);
+    });
+  });
+
+  describe('validation', () => {
+    it('should report invalid thresholds and comparisons', () => {
+      mockPageProps([]);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.validateExpression('atLeast(users.*, posts.*)').errors[0]
+      ).toMatchObject({ code: 'invalid_argument', start: 8, end: 15 });
+      expect(
+        result.current.validateExpression('atLeast(2)').errors[0]
+      ).toMatchObject({ code: 'invalid_argument' });
+      expect(
+        result.current.validateExpression('count(users.*)').errors[0]
+      ).toMatchObject({ code: 'missing_comparison', start: 0, end: 14 });
+      expect(
+        result.current.validateExpression('count(users.*) >=').errors[0]
+      ).toMatchObject({ code: 'dangling_operator', start: 15, end: 17 });
+      expect(
+        result.current.validateExpression('atLeast(2, a.*,)').errors[0]
+      ).toMatchObject({ code: 'invalid_argument', start: 14, end: 15 });
+      expect(
+        result.current.validateExpression('oneOf(a.*, b.*)').errors[0]
+      ).toMatchObject({ code: 'unknown_function', start: 0, end: 5 });
+      expect(result.current.checkExpression('count(users.*)')).toBe(false);
+    });
+
+    it('should reject anything but a number before the first comma', () => {
+      mockPageProps(['a.view', 'b.view']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.validateExpression('atLeast(2 || x, a.view, b.view)')
+          .errors
+      ).toEqual([
+        expect.objectContaining({
+          code: 'invalid_argument',
+          start: 8,
+          end: 12,
+        }),
+      ]);
+      expect(
+        result.current.checkExpression('atLeast(2 || x, a.view, b.view)')
+      ).toBe(false);
+      expect(
+        result.current.validateExpression('constructor(1, a.view)').errors[0]
+      ).toMatchObject({ code: 'unknown_function', start: 0, end: 11 });
+    });
+  });
+
+  describe('explainExpression', () => {
+    it('should report counts and how many threshold operands passed', () => {
+      mockPageProps(['users.create', 'users.edit', 'billing.approve']);
+      const { result } = renderHook(() => usePermissions());
+
+      expect(
+        result.current.explainExpression('count(users.*) >= 3')
+      ).toMatchObject({
+        type: 'compare',
+        result: false,
+        children: [
+          {
+            type: 'count',
+            value: 2,
+            matches: ['users.create', 'users.edit'],
+          },
+          { type: 'number', value: 3 },
+        ],
+      });
+      expect(
+        result.current.explainExpression(
+          'atLeast(2, billing.approve, finance.approve)'
+        )
+      ).toMatchObject({ type: 'threshold', result: false, value: 1 });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { renderHook } from '@testing-library/react';
+import { usePermissions } from '../hooks/use-permissions';
+
+// Mock @inertiajs/react
+jest.mock('@inertiajs/react', () => ({
+  usePage: jest.fn(),
+}));
+
+import { usePage } from '@inertiajs/react';
+const mockUsePage = usePage as jest.MockedFunction<typeof usePage>;
+
+describe('usePermissions - validateExpression', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUsePage.mockReturnValue({
+      props: {
+        auth: {
+          user: {
+            permissions: ['users.create'],
+          },
+        },
+        errors: {},
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  });
+
+  const validate = (expression: string) => {
+    const { result } = renderHook(() => usePermissions());
+    return result.current.validateExpression(expression);
+  };
+
+  it('should accept valid expressions', () => {
+    expect(validate('(users.* || posts.*) && admin.access')).toEqual({
+      valid: true,
+      errors: [],
+    });
+    expect(validate('properties.view-all|properties.view-own')).toEqual({
+      valid: true,
+      errors: [],
+    });
+    expect(validate('!admin.access && true')).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('should locate an unclosed parenthesis', () => {
+    expect(validate('users.* && (posts.*')).toEqual({
+      valid: false,
+      errors: [
+        {
+          message: "Unclosed '('",
+          code: 'unbalanced_parenthesis',
+          start: 11,
+          end: 12,
+        },
+      ],
+    });
+  });
+
+  it('should locate every unmatched closing parenthesis', () => {
+    const { errors } = validate('users.*) || posts.*)');
+
+    expect(errors.map(error => [error.code, error.start])).toEqual([
+      ['unbalanced_parenthesis', 7],
+      ['unbalanced_parenthesis', 19],
+    ]);
+  });
+
+  it('should locate dangling operators', () => {
+    expect(validate('users.create &&').errors).toEqual([
+      {
+        message: "Operator '&&' is missing its right operand",
+        code: 'dangling_operator',
+        start: 13,
+        end: 15,
+      },
+    ]);
+    expect(validate('|| users.create').errors[0]).toMatchObject({
+      code: 'dangling_operator',
+      start: 0,
+      end: 2,
+    });
+    expect(validate('(users.* |) && admin').errors[0]).toMatchObject({
+      code: 'dangling_operator',
+      start: 9,
+      end: 10,
+    });
+    expect(validate('users.* && !').errors[0]).toMatchObject({
+      code: 'dangling_operator',
+      start: 11,
+      end: 12,
+    });
+  });
+
+  it('should locate empty groups', () => {
+    expect(validate('users.* && ()').errors).toEqual([
+      {
+        message: 'Empty parentheses',
+        code: 'empty_group',
+        start: 11,
+        end: 13,
+      },
+    ]);
+  });
+
+  it('should locate every illegal character', () => {
+    const { valid, errors } = validate('users.create$ || posts.view;');
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      {
+        message: "Unexpected character '$'",
+        code: 'illegal_character',
+        start: 12,
+        end: 13,
+      },
+      {
+        message: "Unexpected character ';'",
+        code: 'illegal_character',
+        start: 27,
+        end: 28,
+      },
+    ]);
+  });
+
+  it('should report missing operators and empty expressions', () => {
+    expect(validate('users.create posts.view').errors[0]).toMatchObject({
+      code: 'missing_operator',
+      start: 13,
+      end: 23,
+    });
+    expect(validate('   ').errors[0]).toMatchObject({
+      code: 'empty_expression',
+    });
+  });
+
+  it('should agree with isValidExpression and the evaluator', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderHook(() => usePermissions());
+
+    const expressions = [
+      'visitor.request.view-all||visitor.request.view-department',
+      'users.create &&',
+      '(users.*',
+      '() && ||',
+      'users.create ||| false',
+      'users.create',
+    ];
+
+    expressions.forEach(expression => {
+      const { valid } = result.current.validateExpression(expression);
+      expect(valid).toBe(result.current.isValidExpression(expression));
+      if (!valid) {
+        expect(result.current.checkExpression(expression)).toBe(false);
+      }
+    });
+  });
+});
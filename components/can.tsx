@@ -1,7 +1,20 @@
 import { type ReactNode } from 'react';
 import { usePermissions } from '../hooks/use-permissions';
+import { isExpression } from '../lib/expression';
+import {
+  type PermissionImplications,
+  type PermissionSource,
+  type TeamId,
+  type WildcardMode,
+} from '../types';
 
 interface CanProps {
+  /** Gate or policy ability registered with defineGate or definePolicy */
+  ability?: string;
+  /** Arguments passed to the gate after the user, e.g. [post] */
+  args?: unknown[];
+  /** Resource whose embedded abilities (e.g. post.can) `ability` and resource: leaves in `permission` or `expression` check */
+  resource?: object | null;
   /** Single permission to check (supports patterns, boolean values, and logical operators) */
   permission?: string;
   /** Complex boolean expression with logical operators */
@@ -16,8 +29,24 @@ interface CanProps {
   anyPatterns?: string[];
   /** Multiple patterns - user needs ALL pattern matches */
   allPatterns?: string[];
-  /** Custom permissions array - if provided, uses this instead of auth permissions. Pass [] for no permissions */
-  permissions?: string[];
+  /** Custom permissions array or ability map - if provided, uses this instead of auth permissions. Pass [] for no permissions */
+  permissions?: PermissionSource;
+  /** How '*' matches: 'greedy' (any characters, default), 'segment' (one dot-separated segment, '**' for any depth) or 'spatie' (Spatie wildcard permissions) */
+  wildcardMode?: WildcardMode;
+  /** Let granted permissions containing wildcards (e.g. 'users.*' or '*') cover the permissions they match (default: false) */
+  grantWildcards?: boolean;
+  /** Permissions implied by granted ones, e.g. { 'posts.manage': ['posts.view', 'posts.edit'] } */
+  implications?: PermissionImplications;
+  /** Team to check instead of the active one from PermissionTeamScope or auth.user.current_team_id */
+  team?: TeamId;
+  /** Guard whose permissions to check, e.g. 'admin' (default: the default guard) */
+  guard?: string;
+  /** Entitlement whose quota must have room left, e.g. 'projects.max' */
+  quota?: string;
+  /** Usage counted against `quota` (default: the same key), e.g. 'projects.count' */
+  quotaUsage?: string;
+  /** What to render when the quota is exhausted (default: fallback) */
+  upgrade?: ReactNode;
   /** What to render when user has permission */
   children: ReactNode;
   /** What to render when user doesn't have permission (optional) */
@@ -61,6 +90,13 @@ interface CanProps {
  * </Can>
  *
  * @example
+ * // Negation, word operators and xor
+ * // Precedence: ! / not, then && / & / and, then xor, then || / | / or
+ * <Can permission="not admin.access and (posts.create or posts.edit)">
+ *   <button>Contributor tools</button>
+ * </Can>
+ *
+ * @example
  * // Using expression prop for complex boolean logic
  * <Can expression="users.* && posts.create || admin.*">
  *   <div>Complex permission logic</div>
@@ -121,6 +157,96 @@ interface CanProps {
  * </Can>
  *
  * @example
+ * // Brace groups and character classes
+ * <Can anyPatterns={['posts.{create,edit,delete}', 'reports.q[1-4]']}>
+ *   <div>Post editing or quarterly reports</div>
+ * </Can>
+ *
+ * @example
+ * // Regex literal for names wildcards can't describe
+ * <Can permission="/^report_\d{4}_q[1-4]\.view$/">
+ *   <ReportArchive />
+ * </Can>
+ *
+ * @example
+ * // Segment-aware wildcards: '*' is one segment, '**' is any depth
+ * <Can permission="users.*" wildcardMode="segment">
+ *   <div>users.create, but not users.profile.delete</div>
+ * </Can>
+ *
+ * @example
+ * // Grant-side wildcards: a user granted 'users.*' or '*' passes
+ * <Can permission="users.create" grantWildcards>
+ *   <CreateUserButton />
+ * </Can>
+ *
+ * @example
+ * // Spatie wildcard permissions, e.g. a user granted 'posts:*' or 'posts:edit,delete'
+ * <Can permission="posts:edit" wildcardMode="spatie">
+ *   <EditPostButton />
+ * </Can>
+ *
+ * @example
+ * // Roles and permissions in one expression
+ * <Can expression="role:admin || (role:editor && posts.publish)">
+ *   <PublishButton />
+ * </Can>
+ *
+ * @example
+ * // Gate or policy ability with arguments
+ * <Can ability="update-post" args={[post]}>
+ *   <EditPostButton />
+ * </Can>
+ *
+ * @example
+ * // Ability embedded in a Laravel API resource, e.g. post.can.update
+ * <Can ability="update" resource={post}>
+ *   <EditPostButton />
+ * </Can>
+ *
+ * @example
+ * // Resource abilities in expressions
+ * <Can expression="resource:update && posts.publish" resource={post}>
+ *   <PublishButton />
+ * </Can>
+ *
+ * @example
+ * // User and resource attributes in comparisons
+ * <Can expression="user.id == resource.owner_id || posts.edit-any" resource={post}>
+ *   <EditPostButton />
+ * </Can>
+ *
+ * @example
+ * // Another team than the active one
+ * <Can permission="projects.create" team={otherTeam.id}>
+ *   <CreateProjectButton />
+ * </Can>
+ *
+ * @example
+ * // Permissions of another guard shared in auth.guards
+ * <Can permission="settings.manage" guard="admin">
+ *   <AdminSettings />
+ * </Can>
+ *
+ * @example
+ * // Quota from auth.entitlements and auth.usage, with an upgrade prompt
+ * // once it is exhausted
+ * <Can
+ *   permission="projects.create"
+ *   quota="projects.max"
+ *   quotaUsage="projects.count"
+ *   upgrade={<UpgradeButton />}
+ * >
+ *   <CreateProjectButton />
+ * </Can>
+ *
+ * @example
+ * // Entitlements in expressions
+ * <Can expression="entitlement(projects.max) > usage(projects.count)">
+ *   <CreateProjectButton />
+ * </Can>
+ *
+ * @example
  * // With fallback
  * <Can
  *   permission="admin.access"
@@ -139,6 +265,15 @@ interface CanProps {
  * </Can>
  *
  * @example
+ * // Ability map, e.g. Gate::check results; false entries deny
+ * <Can
+ *   permission="users.*"
+ *   permissions={{ 'users.create': true, 'users.delete': false }}
+ * >
+ *   <UserTools />
+ * </Can>
+ *
+ * @example
  * // Empty permissions array (no permissions)
  * <Can
  *   permission="admin.access"
@@ -158,6 +293,9 @@ interface CanProps {
  * </Can>
  */
 export function Can({
+  ability,
+  args = [],
+  resource,
   permission,
   expression,
   anyPermissions,
@@ -166,6 +304,14 @@ export function Can({
   anyPatterns,
   allPatterns,
   permissions,
+  wildcardMode,
+  grantWildcards,
+  implications,
+  team,
+  guard,
+  quota,
+  quotaUsage,
+  upgrade,
   children,
   fallback = null,
   requireAuth = true,
@@ -178,8 +324,17 @@ export function Can({
     hasAnyPattern,
     hasAllPatterns,
     checkExpression,
+    can,
+    canResource,
+    hasQuota,
     isAuthenticated,
-  } = usePermissions(permissions);
+  } = usePermissions(permissions, {
+    wildcardMode,
+    grantWildcards,
+    implications,
+    team,
+    guard,
+  });
 
   // Check authentication requirement
   if (requireAuth && !isAuthenticated) {
@@ -189,12 +344,22 @@ export function Can({
   // Check permissions based on props
   let hasAccess = false;
 
-  if (expression) {
+  if (ability && resource !== undefined) {
+    // Ability embedded in the resource, e.g. post.can.update
+    hasAccess = canResource(resource, ability);
+  } else if (ability) {
+    // Gate or policy, falling back to a permission check
+    hasAccess = can(ability, ...args);
+  } else if (expression) {
     // Handle complex boolean expressions
-    hasAccess = checkExpression(expression);
+    hasAccess = checkExpression(expression, resource);
   } else if (permission) {
-    // permission prop now supports patterns and expressions automatically
-    hasAccess = hasPermission(permission);
+    // permission prop now supports patterns and expressions automatically,
+    // checked against the resource when one is given
+    hasAccess =
+      resource !== undefined && isExpression(permission)
+        ? checkExpression(permission, resource)
+        : hasPermission(permission);
   } else if (anyPermissions && anyPermissions.length > 0) {
     // anyPermissions now supports patterns in individual permissions
     hasAccess = hasAnyPermission(anyPermissions);
@@ -211,10 +376,19 @@ export function Can({
   } else if (pattern) {
     // Legacy pattern support
     hasAccess = hasPermissionPattern(pattern);
-  } else if (!requireAuth) {
-    // If no permissions specified and auth not required, allow access
+  } else if (quota || !requireAuth) {
+    // If only a quota or no permissions are specified, allow access
     hasAccess = true;
   }
 
-  return hasAccess ? <>{children}</> : <>{fallback}</>;
+  if (!hasAccess) {
+    return <>{fallback}</>;
+  }
+
+  // Allowed, but the plan has no room left
+  if (quota && !hasQuota(quota, quotaUsage)) {
+    return <>{upgrade ?? fallback}</>;
+  }
+
+  return <>{children}</>;
 }
@@ -0,0 +1,36 @@
+import { createContext, type ReactNode } from 'react';
+import { type TeamId } from '../types';
+
+/**
+ * Team selected by the nearest PermissionTeamScope, if any
+ */
+export const PermissionTeamContext = createContext<TeamId | null>(null);
+
+interface PermissionTeamScopeProps {
+  /** Team whose permissions checks inside this scope use */
+  teamId: TeamId;
+  /** Content that checks permissions for the team */
+  children: ReactNode;
+}
+
+/**
+ * Scope permission checks to a team, for team-scoped payloads such as
+ * Spatie teams or Jetstream teams sent as `auth.user.team_permissions`
+ *
+ * @example
+ * <PermissionTeamScope teamId={team.id}>
+ *   <Can permission="projects.create">
+ *     <CreateProjectButton />
+ *   </Can>
+ * </PermissionTeamScope>
+ */
+export function PermissionTeamScope({
+  teamId,
+  children,
+}: PermissionTeamScopeProps) {
+  return (
+    <PermissionTeamContext.Provider value={teamId}>
+      {children}
+    </PermissionTeamContext.Provider>
+  );
+}
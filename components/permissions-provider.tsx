@@ -0,0 +1,79 @@
+import { createContext, useMemo, type ReactNode } from 'react';
+import {
+  type Entitlements,
+  type PermissionSource,
+  type ProvidedAuth,
+  type ProvidedUser,
+  type Usage,
+} from '../types';
+
+/**
+ * Auth data of the nearest PermissionsProvider, or null outside one
+ */
+export const PermissionsContext = createContext<ProvidedAuth | null>(null);
+
+interface PermissionsProviderProps {
+  /** Permissions or ability map of the user, taking precedence over user.permissions */
+  permissions?: PermissionSource;
+  /** The user, or null for a guest (default: an anonymous user when permissions or roles are given) */
+  user?: Partial<ProvidedUser> | null;
+  /** Role names of the user, taking precedence over user.roles */
+  roles?: string[];
+  /** Limits and features of the user's plan, e.g. { 'projects.max': 5 } */
+  entitlements?: Entitlements;
+  /** How much of each quota is used, e.g. { 'projects.count': 3 } */
+  usage?: Usage;
+  /** Content that checks permissions */
+  children: ReactNode;
+}
+
+/**
+ * Supply permissions without Inertia, e.g. in Storybook, tests, portals
+ * rendered before Inertia mounts or plain React apps. usePermissions, Can
+ * and withPermission read from the nearest provider instead of usePage.
+ *
+ * @example
+ * <PermissionsProvider permissions={['posts.create']} roles={['editor']}>
+ *   <PostToolbar />
+ * </PermissionsProvider>
+ *
+ * @example
+ * // A guest
+ * <PermissionsProvider user={null}>
+ *   <PostToolbar />
+ * </PermissionsProvider>
+ */
+export function PermissionsProvider({
+  permissions,
+  user,
+  roles,
+  entitlements,
+  usage,
+  children,
+}: PermissionsProviderProps) {
+  // Kept stable across renders, so consumers only re-render when the
+  // supplied data changes
+  const auth = useMemo((): ProvidedAuth => {
+    const authenticated =
+      user !== null &&
+      (user !== undefined || permissions !== undefined || roles !== undefined);
+
+    return {
+      user: authenticated
+        ? ({
+            ...user,
+            permissions: permissions ?? user?.permissions,
+            roles: roles ?? user?.roles,
+          } as ProvidedUser)
+        : null,
+      entitlements,
+      usage,
+    };
+  }, [permissions, user, roles, entitlements, usage]);
+
+  return (
+    <PermissionsContext.Provider value={auth}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
@@ -0,0 +1,63 @@
+import { type ReactNode } from 'react';
+import { usePermissions } from '../hooks/use-permissions';
+
+interface RoleProps {
+  /** Role the user needs */
+  is?: string;
+  /** Multiple roles - user needs ANY of these */
+  any?: string[];
+  /** Multiple roles - user needs ALL of these */
+  all?: string[];
+  /** Guard whose roles to check, e.g. 'admin' (default: the default guard) */
+  guard?: string;
+  /** What to render when user has the role */
+  children: ReactNode;
+  /** What to render when user doesn't have the role (optional) */
+  fallback?: ReactNode;
+}
+
+/**
+ * Role component for conditional rendering based on user roles
+ * Similar to Spatie's @role, @hasanyrole and @hasallroles Blade directives
+ *
+ * @example
+ * <Role is="admin">
+ *   <AdminPanel />
+ * </Role>
+ *
+ * @example
+ * // Any of multiple roles, with fallback
+ * <Role any={['editor', 'writer']} fallback={<ReadOnlyNotice />}>
+ *   <Editor />
+ * </Role>
+ *
+ * @example
+ * // All roles required
+ * <Role all={['finance', 'manager']}>
+ *   <ApproveBudgetButton />
+ * </Role>
+ */
+export function Role({
+  is,
+  any,
+  all,
+  guard,
+  children,
+  fallback = null,
+}: RoleProps) {
+  const { hasRole, hasAnyRole, hasAllRoles } = usePermissions(undefined, {
+    guard,
+  });
+
+  let hasAccess = false;
+
+  if (is) {
+    hasAccess = hasRole(is);
+  } else if (any && any.length > 0) {
+    hasAccess = hasAnyRole(any);
+  } else if (all && all.length > 0) {
+    hasAccess = hasAllRoles(all);
+  }
+
+  return hasAccess ? <>{children}</> : <>{fallback}</>;
+}
@@ -0,0 +1,49 @@
+import { type ReactNode } from 'react';
+import { usePermissions } from '../hooks/use-permissions';
+
+interface UnlessRoleProps {
+  /** Role the user must not have */
+  is?: string;
+  /** Multiple roles - user must have NONE of these */
+  any?: string[];
+  /** Guard whose roles to check, e.g. 'admin' (default: the default guard) */
+  guard?: string;
+  /** What to render when user doesn't have the role */
+  children: ReactNode;
+  /** What to render when user has the role (optional) */
+  fallback?: ReactNode;
+}
+
+/**
+ * UnlessRole component, the inverse of Role
+ * Similar to Spatie's @unlessrole Blade directive
+ *
+ * @example
+ * <UnlessRole is="subscriber">
+ *   <SubscribeBanner />
+ * </UnlessRole>
+ *
+ * @example
+ * // None of multiple roles
+ * <UnlessRole any={['admin', 'moderator']}>
+ *   <ReportButton />
+ * </UnlessRole>
+ */
+export function UnlessRole({
+  is,
+  any,
+  guard,
+  children,
+  fallback = null,
+}: UnlessRoleProps) {
+  const { hasRole, hasAnyRole } = usePermissions(undefined, { guard });
+
+  let excluded = false;
+  if (is) {
+    excluded = hasRole(is);
+  } else if (any && any.length > 0) {
+    excluded = hasAnyRole(any);
+  }
+
+  return excluded ? <>{fallback}</> : <>{children}</>;
+}
@@ -1,7 +1,19 @@
 import { type ComponentType, type ReactNode } from 'react';
+import {
+  type PermissionImplications,
+  type PermissionSource,
+  type TeamId,
+  type WildcardMode,
+} from '../types';
 import { Can } from './can';
 
-interface WithPermissionOptions {
+interface WithPermissionOptions<P> {
+  /** Gate or policy ability registered with defineGate or definePolicy */
+  ability?: string;
+  /** Arguments passed to the gate after the user, e.g. [post] */
+  args?: unknown[];
+  /** Resource whose embedded abilities (e.g. post.can) to check, or a function of the props returning it */
+  resource?: object | null | ((props: P) => object | null | undefined);
   /** Single permission to check (supports patterns, boolean values, and logical operators) */
   permission?: string;
   /** Complex boolean expression with logical operators */
@@ -16,8 +28,24 @@ interface WithPermissionOptions {
   anyPatterns?: string[];
   /** Multiple patterns - user needs ALL pattern matches */
   allPatterns?: string[];
-  /** Custom permissions array - if provided, uses this instead of auth permissions. Pass [] for no permissions */
-  permissions?: string[];
+  /** Custom permissions array or ability map - if provided, uses this instead of auth permissions. Pass [] for no permissions */
+  permissions?: PermissionSource;
+  /** How '*' matches: 'greedy' (any characters, default), 'segment' (one dot-separated segment, '**' for any depth) or 'spatie' (Spatie wildcard permissions) */
+  wildcardMode?: WildcardMode;
+  /** Let granted permissions containing wildcards (e.g. 'users.*' or '*') cover the permissions they match (default: false) */
+  grantWildcards?: boolean;
+  /** Permissions implied by granted ones, e.g. { 'posts.manage': ['posts.view', 'posts.edit'] } */
+  implications?: PermissionImplications;
+  /** Team to check instead of the active one from PermissionTeamScope or auth.user.current_team_id */
+  team?: TeamId;
+  /** Guard whose permissions to check, e.g. 'admin' (default: the default guard) */
+  guard?: string;
+  /** Entitlement whose quota must have room left, e.g. 'projects.max' */
+  quota?: string;
+  /** Usage counted against `quota` (default: the same key), e.g. 'projects.count' */
+  quotaUsage?: string;
+  /** What to render when the quota is exhausted (default: fallback) */
+  upgrade?: ReactNode;
   /** What to render when user doesn't have permission */
   fallback?: ReactNode;
   /** Require authentication (default: true) */
@@ -57,6 +85,43 @@ interface WithPermissionOptions {
  * });
  *
  * @example
+ * // Gate or policy ability
+ * const EditPost = withPermission(PostEditor, {
+ *   ability: 'update-post',
+ *   args: [post],
+ * });
+ *
+ * @example
+ * // Permissions of a specific team
+ * const TeamBilling = withPermission(BillingPanel, {
+ *   permission: 'billing.manage',
+ *   team: team.id,
+ * });
+ *
+ * @example
+ * // Permissions of the admin guard
+ * const AdminSettings = withPermission(SettingsPanel, {
+ *   permission: 'settings.manage',
+ *   guard: 'admin',
+ * });
+ *
+ * @example
+ * // Ability embedded in the resource passed as a prop
+ * const EditPostButton = withPermission(Button, {
+ *   ability: 'update',
+ *   resource: (props: { post: Post }) => props.post,
+ * });
+ *
+ * @example
+ * // Upgrade prompt once the plan's project quota is used up
+ * const NewProjectButton = withPermission(Button, {
+ *   permission: 'projects.create',
+ *   quota: 'projects.max',
+ *   quotaUsage: 'projects.count',
+ *   upgrade: <UpgradeButton />,
+ * });
+ *
+ * @example
  * // Custom permissions from static file
  * const StaticPermissionComponent = withPermission(SecurePanel, {
  *   permission: 'users.create',
@@ -74,11 +139,18 @@ interface WithPermissionOptions {
  */
 export function withPermission<P extends object>(
   Component: ComponentType<P>,
-  options: WithPermissionOptions
+  options: WithPermissionOptions<P>
 ) {
+  const { resource, ...canOptions } = options;
+
   const WrappedComponent = (props: P) => {
     return (
-      <Can {...options}>
+      <Can
+        {...canOptions}
+        resource={
+          typeof resource === 'function' ? (resource(props) ?? null) : resource
+        }
+      >
         <Component {...props} />
       </Can>
     );
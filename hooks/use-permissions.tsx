@@ -1,179 +1,429 @@
 import { usePage } from '@inertiajs/react';
-import { type SharedData } from '../types';
+import { useContext } from 'react';
+import { PermissionTeamContext } from '../components/permission-team-scope';
+import { PermissionsContext } from '../components/permissions-provider';
+import { toPermissionList } from '../lib/abilities';
+import {
+  getDefaultGuard,
+  getDefaultImplications,
+  getDefaultWildcardMode,
+  resourceAllows,
+  selectAuth,
+} from '../lib/config';
+import {
+  compileExpression,
+  evaluateCompiledExpression,
+  explainCompiledExpression,
+  type EvaluationContext,
+} from '../lib/evaluator';
+import { getGate, runInterceptors } from '../lib/gate';
+import { expandImplications } from '../lib/implications';
+import { expandRoles } from '../lib/roles';
+import {
+  isExpression,
+  isSinglePattern,
+  usesOnlyWordOperators,
+  validateExpression as validateExpressionSyntax,
+} from '../lib/expression';
+import {
+  compileGrant,
+  compilePattern,
+  hasWildcards,
+  type PatternMatcher,
+} from '../lib/pattern';
+import {
+  type ExpressionExplanation,
+  type ExpressionValidationResult,
+  type GateUser,
+  type PermissionSource,
+  type ProvidedAuth,
+  type SharedData,
+  type UsePermissionsOptions,
+} from '../types';
+
+/**
+ * The auth data of the nearest PermissionsProvider, falling back to the
+ * Inertia page props read through the configured selectors. usePage is
+ * always called to keep the hook order stable; it only throws outside
+ * Inertia, where a provider takes over.
+ */
+function useAuth(): ProvidedAuth | undefined {
+  const provided = useContext(PermissionsContext);
+  try {
+    const page = usePage<SharedData>();
+    return provided ?? selectAuth(page.props);
+  } catch (error) {
+    if (provided) return provided;
+    throw error;
+  }
+}
 
-export function usePermissions(permissions?: string[]) {
-  const { auth } = usePage<SharedData>().props;
+export function usePermissions(
+  permissions?: PermissionSource,
+  options: UsePermissionsOptions = {}
+) {
+  const auth = useAuth();
+  const scopedTeam = useContext(PermissionTeamContext);
+  const {
+    wildcardMode = getDefaultWildcardMode(),
+    grantWildcards = false,
+    implications = getDefaultImplications(),
+    team,
+    guard = getDefaultGuard(),
+  } = options;
+
+  // With guard-keyed payloads, each guard shares its own user, or null when
+  // nobody is signed in on it
+  const user = auth?.guards ? (auth.guards[guard] ?? null) : auth?.user;
+
+  // With team-scoped permissions, the team comes from the options, then the
+  // nearest PermissionTeamScope, then the user's current team
+  const teamPermissions = user?.team_permissions;
+  const activeTeam = teamPermissions
+    ? (team ?? scopedTeam ?? user?.current_team_id ?? null)
+    : null;
+
+  // Role names, as shared by Spatie's getRoleNames()
+  const roles = user?.roles || [];
+
+  // The active team's permissions or the auth permissions and abilities,
+  // plus those the user's roles grant through defineRoles. Ability maps
+  // become lists where false entries are denials.
+  const sharedPermissions =
+    activeTeam !== null
+      ? toPermissionList(teamPermissions?.[activeTeam])
+      : user && auth?.can
+        ? [...toPermissionList(user.permissions), ...toPermissionList(auth.can)]
+        : toPermissionList(user?.permissions);
+  const rolePermissions = expandRoles(roles);
 
   // If permissions is provided, use it (even if empty array)
-  // Otherwise, use auth permissions
-  const userPermissions =
-    permissions !== undefined ? permissions : auth?.user?.permissions || [];
+  // Otherwise, use the shared and role permissions
+  const payload =
+    permissions !== undefined
+      ? toPermissionList(permissions)
+      : rolePermissions.length > 0
+        ? [...new Set([...sharedPermissions, ...rolePermissions])]
+        : sharedPermissions;
+
+  // Entries such as '-invoices.delete' deny a permission, as does anything
+  // in auth.user.forbidden when the auth permissions are used
+  const isDenial = (permission: string) =>
+    permission.length > 1 && permission.startsWith('-');
+  const deniedPermissions = [
+    ...payload.filter(isDenial).map(permission => permission.slice(1)),
+    ...(permissions === undefined ? user?.forbidden || [] : []),
+  ];
+  const denyMatchers: PatternMatcher[] = [];
+  deniedPermissions.forEach(permission => {
+    try {
+      denyMatchers.push(compileGrant(permission, wildcardMode));
+    } catch {
+      // A denial that fails to compile cannot match anything
+    }
+  });
+
+  /**
+   * Whether a permission or pattern is covered by a denial. Denials
+   * override any grant.
+   */
+  const isDenied = (permission: string): boolean => {
+    return denyMatchers.some(denial => denial.test(permission));
+  };
+
+  // Granted permissions with everything they imply, without denial entries
+  // or anything they deny. A denied permission implies nothing.
+  const granted = payload.filter(
+    permission => !isDenial(permission) && !isDenied(permission)
+  );
+  const userPermissions = implications
+    ? expandImplications(granted, implications, wildcardMode).filter(
+        permission => !isDenied(permission)
+      )
+    : granted;
+
+  // With grantWildcards, granted permissions such as 'users.*' or '*' are
+  // patterns themselves. Grants that fail to compile are ignored.
+  // Spatie wildcard permissions already cover what they imply.
+  const grantMatchers = new Map<string, PatternMatcher>();
+  if (grantWildcards && wildcardMode !== 'spatie') {
+    userPermissions.filter(hasWildcards).forEach(permission => {
+      try {
+        grantMatchers.set(permission, compilePattern(permission, wildcardMode));
+      } catch {
+        // Not a valid pattern, so it can only match exactly
+      }
+    });
+  }
+
+  /**
+   * Whether a single granted permission covers the requested permission or
+   * pattern, either by matching it or, for a wildcard grant, by matching
+   * its text
+   */
+  const grantCovers = (granted: string, matcher: PatternMatcher): boolean => {
+    if (matcher.test(granted)) return true;
+    return grantMatchers.get(granted)?.test(matcher.pattern) ?? false;
+  };
+
+  /**
+   * Whether the user holds a plain permission name, directly or through a
+   * wildcard grant
+   */
+  const holdsPermission = (permission: string): boolean => {
+    if (isDenied(permission)) return false;
+    if (userPermissions.includes(permission)) return true;
+    if (wildcardMode === 'spatie') {
+      try {
+        return matchesPattern(compilePattern(permission, wildcardMode));
+      } catch {
+        // Not a properly formatted wildcard permission
+        return false;
+      }
+    }
+    for (const grant of grantMatchers.values()) {
+      if (grant.test(permission)) return true;
+    }
+    return false;
+  };
+
+  /**
+   * Check if the user has a specific role, like Spatie's @role
+   */
+  const hasRole = (role: string): boolean => {
+    return roles.includes(role);
+  };
+
+  /**
+   * Check if the user has any of the specified roles, like @hasanyrole
+   */
+  const hasAnyRole = (roles: string[]): boolean => {
+    return roles.some(hasRole);
+  };
+
+  /**
+   * Check if the user has all of the specified roles, like @hasallroles
+   */
+  const hasAllRoles = (roles: string[]): boolean => {
+    return roles.every(hasRole);
+  };
+
+  /**
+   * Read a plan entitlement, e.g. a limit such as 'projects.max' or a
+   * feature such as 'sso', or null when it is not shared
+   */
+  const entitlement = (key: string): number | boolean | null => {
+    const entitlements = auth?.entitlements;
+    if (
+      !entitlements ||
+      !Object.prototype.hasOwnProperty.call(entitlements, key)
+    ) {
+      return null;
+    }
+    return entitlements[key] ?? null;
+  };
+
+  /**
+   * Read how much of a quota is used, or 0 when it is not shared
+   */
+  const usage = (key: string): number => {
+    const shared = auth?.usage;
+    if (!shared || !Object.prototype.hasOwnProperty.call(shared, key)) {
+      return 0;
+    }
+    return typeof shared[key] === 'number' ? shared[key] : 0;
+  };
+
+  /**
+   * Check if a quota has room left: its entitlement is true (unlimited) or
+   * a number above the usage
+   * Example: hasQuota('projects.max', 'projects.count')
+   */
+  const hasQuota = (key: string, usageKey: string = key): boolean => {
+    const limit = entitlement(key);
+    if (limit === true) return true;
+    return typeof limit === 'number' && limit > usage(usageKey);
+  };
+
+  /**
+   * The authenticated user as passed to gates and interceptors, with the
+   * permission helpers attached, or null for guests
+   */
+  const gateUser = (): GateUser | null => {
+    if (!user) return null;
+    return {
+      ...user,
+      hasPermission,
+      hasAnyPermission,
+      hasAllPermissions,
+      hasPermissionPattern,
+      checkExpression,
+      can,
+      hasRole,
+      hasAnyRole,
+      hasAllRoles,
+    };
+  };
+
+  /**
+   * Run a check between the global before and after interceptors
+   */
+  const intercept = (
+    ability: string,
+    args: unknown[],
+    check: () => boolean
+  ): boolean => {
+    return runInterceptors(gateUser, ability, args, check);
+  };
 
   /**
    * Check if the user has a specific permission
    * Also supports pattern matching and complex expressions with logical operators
    * Examples:
    * - 'users.create' (exact match)
-   * - 'users.*' (wildcard)
+   * - 'users.*' (wildcard; one segment only when wildcardMode is 'segment')
+   * - 'users.**' (any depth in either mode)
    * - 'users.* || posts.*' (logical OR)
    * - 'users.* && admin.access' (logical AND)
    * - '(users.* || posts.*) && admin.access' (grouped expressions)
+   * - '!admin.access' or 'not admin.access' (negation)
+   * - 'users.create and posts.view', 'users.* or posts.*' (word operators)
+   * - 'billing.approve xor finance.approve' (exactly one of two)
+   * - '/^report_\d{4}_q[1-4]\.view$/' (regex literal, with optional flags)
    * - 'true' or 'false' (boolean literals)
    */
   const hasPermission = (permission: string): boolean => {
+    return intercept(permission, [], () => checkPermission(permission));
+  };
+
+  // hasPermission without the interceptors
+  const checkPermission = (permission: string): boolean => {
     // Handle boolean literals
     if (permission.trim() === 'true') return true;
     if (permission.trim() === 'false') return false;
 
-    // If permission contains wildcards or logical operators, treat as pattern/expression
-    if (
-      permission.includes('*') ||
-      permission.includes('?') ||
-      permission.includes('||') ||
-      permission.includes('&&') ||
-      permission.includes('|') ||
-      permission.includes('&')
-    ) {
-      return hasPermissionPattern(permission);
+    // A lone pattern is compiled directly, like hasPermissionPattern, so
+    // punctuation such as 'users.*+' matches literally
+    if (isExpression(permission) && isSinglePattern(permission)) {
+      return matchesSinglePattern(permission.trim());
+    }
+
+    // Anything using wildcards, operators or negation is an expression;
+    // a plain permission name is an exact match. A name that only reads
+    // like an expression, such as 'read and write', matches exactly first,
+    // and is never parsed when none of its words is a dotted permission,
+    // so 'not applicable' does not pass for everyone without 'applicable'.
+    if (isExpression(permission)) {
+      if (usesOnlyWordOperators(permission)) {
+        if (holdsPermission(permission)) return true;
+        if (!/[.:]/.test(permission)) return false;
+      }
+      if (!isValidExpression(permission) && holdsPermission(permission)) {
+        return true;
+      }
+      return evaluatePermissionExpression(permission);
     }
 
-    return userPermissions.includes(permission);
+    return holdsPermission(permission);
   };
 
   /**
-   * Check if the user has any of the specified permissions
+   * Check if the user has any of the specified permissions, each of which
+   * may be a pattern or expression as in hasPermission
    */
   const hasAnyPermission = (permissions: string[]): boolean => {
-    return permissions.some(permission => userPermissions.includes(permission));
+    return permissions.some(permission =>
+      intercept(permission, [], () => checkPermission(permission))
+    );
   };
 
   /**
-   * Check if the user has all of the specified permissions
+   * Check if the user has all of the specified permissions, each of which
+   * may be a pattern or expression as in hasPermission
    */
   const hasAllPermissions = (permissions: string[]): boolean => {
     return permissions.every(permission =>
-      userPermissions.includes(permission)
+      intercept(permission, [], () => checkPermission(permission))
     );
   };
 
   /**
-   * Check if user has a simple permission pattern (no logical operators)
+   * Check a compiled pattern against the user's permissions
    */
-  const checkSimplePermissionPattern = (pattern: string): boolean => {
-    // Handle boolean literals
-    if (pattern.trim() === 'true') return true;
-    if (pattern.trim() === 'false') return false;
+  const matchesPattern = (matcher: PatternMatcher): boolean => {
+    if (isDenied(matcher.pattern)) return false;
 
-    // Special case: if pattern is just '*', it should match for all users
+    // Special case: '*' should match for all users
     // including those with empty permissions (universal access)
-    if (pattern.trim() === '*') return true;
+    if (matcher.universal) return true;
 
-    // Convert pattern to regex for simple patterns
-    let regexPattern = pattern
-      .replace(/\./g, '\\.') // Escape dots
-      .replace(/\*/g, '.*') // * becomes .*
-      .replace(/\?/g, '.'); // ? becomes .
+    return userPermissions.some(granted => grantCovers(granted, matcher));
+  };
 
-    // Ensure exact match (anchor start and end)
-    regexPattern = `^${regexPattern}$`;
+  /**
+   * List the user's permissions that a compiled pattern matches, including
+   * wildcard grants that cover it
+   */
+  const collectMatches = (matcher: PatternMatcher): string[] => {
+    if (isDenied(matcher.pattern)) return [];
+
+    return userPermissions.filter(granted => grantCovers(granted, matcher));
+  };
 
-    const regex = new RegExp(regexPattern);
-    return userPermissions.some(permission => regex.test(permission));
+  // What expressions are evaluated against
+  const context: EvaluationContext = {
+    matches: matchesPattern,
+    collect: collectMatches,
+    hasRole,
+    attributes: source => (source === 'user' ? user : undefined),
+    entitlement,
+    usage,
+  };
+
+  // The context for an expression checked against a resource, whose
+  // resource: leaves read the resource's abilities
+  const contextFor = (resource?: object | null): EvaluationContext => {
+    if (resource === undefined) return context;
+    return {
+      ...context,
+      canResource: ability => resourceAllows(resource, ability),
+      attributes: source => (source === 'user' ? user : resource),
+    };
   };
 
   /**
    * Evaluate a complex permission expression with logical operators
    * Supports:
    * - Boolean values: true, false
-   * - Logical operators: ||, &&, |, &
-   * - Wildcards: *, ?
+   * - Logical operators: ||, &&, |, & and the words or, and, xor
+   * - Wildcards: *, ?, brace groups {a,b} and character classes [0-9]
+   * - Regex literals: /^report_\d{4}_q[1-4]\.view$/ with optional i, m, s, u flags
    * - Parentheses for grouping: (users.* || posts.*) && admin.access
-   * - Negation: !admin.access
+   * - Negation: !admin.access or not admin.access
+   * - Thresholds: atLeast(2, billing.approve, finance.approve, ceo.approve),
+   *   also atMost(...) and exactly(...)
+   * - Counting: count(users.*) >= 3, compared with ==, !=, >, >=, <, <=
+   * - Roles: role:admin || users.*
+   * - Resource abilities: resource:update && posts.publish
+   * - Attributes: user.department == 'finance', user.id == resource.owner_id,
+   *   user.plan in ['pro', 'team']
+   *
+   * Precedence, from tightest to loosest: ! / not, && / & / and, xor,
+   * || / | / or
+   *
+   * The expression is parsed into an AST and walked directly, without any
+   * dynamic code generation, so it is safe under a strict CSP. Parsed
+   * expressions are shared through a module-level cache.
    */
-  const evaluatePermissionExpression = (expression: string): boolean => {
-    // Handle boolean literals
-    if (expression.trim() === 'true') return true;
-    if (expression.trim() === 'false') return false;
-
-    // Normalize logical operators to JavaScript equivalents
-    // Use a more robust approach to avoid double replacement issues
-    let jsExpression = expression;
-
-    // First, replace double operators with temporary markers
-    jsExpression = jsExpression
-      .replace(/\|\|/g, ' DOUBLE_PIPE ') // Double || becomes temporary marker
-      .replace(/&&/g, ' DOUBLE_AMP '); // Double && becomes temporary marker
-
-    // Then replace single operators
-    jsExpression = jsExpression
-      .replace(/\|/g, ' || ') // Single | becomes ||
-      .replace(/&/g, ' && '); // Single & becomes &&
-
-    // Finally, replace temporary markers with proper operators
-    jsExpression = jsExpression
-      .replace(/DOUBLE_PIPE/g, ' || ') // Double || with spaces
-      .replace(/DOUBLE_AMP/g, ' && '); // Double && with spaces
-
-    // Clean up multiple spaces
-    jsExpression = jsExpression.replace(/\s+/g, ' ').trim();
-
-    // Find all permission patterns in the expression
-    // This regex matches permission patterns in the expression.
-    // Breakdown of alternation groups:
-    //   \*         - matches a standalone '*' wildcard
-    //   \?         - matches a standalone '?' wildcard
-    //   [a-zA-Z_][a-zA-Z0-9_.*?-]*(?:\.[a-zA-Z0-9_.*?-]*)*
-    //              - matches standard permission strings, e.g. 'users.create', 'posts.*', 'properties.view-all'
-    //   true|false - matches boolean literals 'true' or 'false'
-    // The (?![|&]) negative lookahead ensures we don't match permission patterns that are immediately followed by a logical operator.
-    const permissionRegex =
-      /(?:\*|\?|[a-zA-Z_][a-zA-Z0-9_.*?-]*(?:\.[a-zA-Z0-9_.*?-]*)*|true|false)(?![|&])/g;
-    const permissions = jsExpression.match(permissionRegex) || [];
-
-    // Replace each permission with its boolean evaluation
-    let evaluatedExpression = jsExpression;
-
-    for (const permission of permissions) {
-      // Skip boolean literals and operators
-      if (permission === 'true' || permission === 'false') continue;
-
-      // Use simple pattern checking to avoid circular dependency
-      const hasPermissionResult = checkSimplePermissionPattern(permission);
-
-      // For wildcard patterns like * or ?, we need special handling since they don't have word boundaries
-      if (permission === '*' || permission === '?') {
-        // Replace standalone wildcards not part of larger patterns
-        const wildcardRegex = new RegExp(
-          `\\${permission}(?![a-zA-Z0-9_.])`,
-          'g'
-        );
-        evaluatedExpression = evaluatedExpression.replace(
-          wildcardRegex,
-          hasPermissionResult.toString()
-        );
-      } else {
-        // For normal permissions, escape special regex characters
-        const escapedPermission = permission.replace(
-          /[.*+?^${}()|[\]\\]/g,
-          '\\$&'
-        );
-
-        // Use word boundaries only if the permission doesn't contain hyphens
-        // because \b doesn't work with hyphens (they're considered word separators)
-        const permissionRegex = permission.includes('-')
-          ? new RegExp(escapedPermission, 'g')
-          : new RegExp(`\\b${escapedPermission}\\b`, 'g');
-
-        evaluatedExpression = evaluatedExpression.replace(
-          permissionRegex,
-          hasPermissionResult.toString()
-        );
-      }
-    }
-
+  const evaluatePermissionExpression = (
+    expression: string,
+    resource?: object | null
+  ): boolean => {
     try {
-      // Safely evaluate the boolean expression
-      return Function(`"use strict"; return (${evaluatedExpression})`)();
+      return evaluateCompiledExpression(
+        compileExpression(expression, wildcardMode),
+        contextFor(resource)
+      );
     } catch (error) {
       console.warn('Invalid permission expression:', expression, error);
       return false;
@@ -187,23 +437,31 @@ export function usePermissions(permissions?: string[]) {
    * - Logical operators: ||, &&, |, &
    * - Wildcard (*): 'users.*' matches 'users.create', 'users.edit', etc.
    * - Single char (?): 'user?.edit' matches 'user1.edit', 'user2.edit', etc.
+   * - Braces: 'posts.{create,edit}' matches 'posts.create' or 'posts.edit'
+   * - Character classes: 'report_[0-9]' matches 'report_1', 'report_2', etc.
+   * - Regex literals: '/^report_\d{4}\.view$/i' is tested against each permission
    * - Multiple patterns: 'users.* || posts.*' matches users OR posts permissions
    * - Complex expressions: '(users.* || posts.*) && admin.access'
    * - Exact match: 'users.create' matches exactly 'users.create'
    */
   const hasPermissionPattern = (pattern: string): boolean => {
-    // Handle complex expressions with logical operators
-    if (
-      pattern.includes('||') ||
-      pattern.includes('&&') ||
-      pattern.includes('|') ||
-      pattern.includes('&')
-    ) {
-      return evaluatePermissionExpression(pattern);
-    }
+    // A single pattern is compiled directly, so names with punctuation the
+    // expression tokenizer rejects still match; anything else is parsed
+    return intercept(pattern, [], () =>
+      isSinglePattern(pattern)
+        ? matchesSinglePattern(pattern.trim())
+        : evaluatePermissionExpression(pattern)
+    );
+  };
 
-    // For simple patterns, use the simple pattern checker
-    return checkSimplePermissionPattern(pattern);
+  // Check one pattern without the expression parser
+  const matchesSinglePattern = (pattern: string): boolean => {
+    try {
+      return matchesPattern(compilePattern(pattern, wildcardMode));
+    } catch (error) {
+      console.warn('Invalid permission pattern:', pattern, error);
+      return false;
+    }
   };
 
   /**
@@ -227,55 +485,123 @@ export function usePermissions(permissions?: string[]) {
    * Example: getMatchingPermissions('users.*') returns ['users.create', 'users.edit']
    */
   const getMatchingPermissions = (pattern: string): string[] => {
-    let regexPattern = pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-
-    regexPattern = `^${regexPattern}$`;
-    const regex = new RegExp(regexPattern);
-
-    return userPermissions.filter(permission => regex.test(permission));
+    try {
+      return collectMatches(compilePattern(pattern, wildcardMode));
+    } catch (error) {
+      console.warn('Invalid permission pattern:', pattern, error);
+      return [];
+    }
   };
 
   /**
    * Check if user has permissions matching a complex boolean expression
    * Example: checkExpression('(users.* || posts.*) && admin.access')
+   * With a resource, resource: leaves check its embedded abilities
+   * Example: checkExpression('resource:update && posts.publish', post)
    */
-  const checkExpression = (expression: string): boolean => {
-    return evaluatePermissionExpression(expression);
+  const checkExpression = (
+    expression: string,
+    resource?: object | null
+  ): boolean => {
+    return intercept(expression, resource === undefined ? [] : [resource], () =>
+      evaluatePermissionExpression(expression, resource)
+    );
   };
 
   /**
-   * Validate if a permission expression is syntactically correct
+   * Check an ability embedded in a resource, e.g. `post.can.update` from a
+   * Laravel API resource. The key and the result for missing abilities are
+   * set with configurePermissions.
+   * Example: canResource(post, 'update')
    */
-  const isValidExpression = (expression: string): boolean => {
+  const canResource = (
+    resource: object | null | undefined,
+    ability: string
+  ): boolean => {
+    return intercept(ability, [resource], () =>
+      resourceAllows(resource, ability)
+    );
+  };
+
+  /**
+   * Explain how an expression was evaluated: every sub-expression with its
+   * result, plus the concrete permissions each pattern matched
+   * Example: explainExpression('(users.* || posts.*) && admin.access')
+   */
+  const explainExpression = (
+    expression: string,
+    resource?: object | null
+  ): ExpressionExplanation => {
     try {
-      // Use the same normalization logic as evaluatePermissionExpression
-      let testExpression = expression
-        .replace(/\|(?!\|)/g, '||') // Single | becomes ||
-        .replace(/&(?!&)/g, '&&'); // Single & becomes &&
-
-      // Clean up triple operators
-      testExpression = testExpression
-        .replace(/\|\|\|/g, '||') // Triple | becomes ||
-        .replace(/&&&/g, '&&'); // Triple & becomes &&
-
-      // Replace all permission patterns with 'true' for syntax validation
-      testExpression = testExpression.replace(
-        /[a-zA-Z_][a-zA-Z0-9_.*?]*(?:\.[a-zA-Z0-9_.*?]*)*(?![|&])/g,
-        'true'
+      return explainCompiledExpression(
+        compileExpression(expression, wildcardMode),
+        contextFor(resource)
       );
+    } catch (error) {
+      return {
+        type: 'error',
+        expression,
+        result: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
 
-      Function(`"use strict"; return (${testExpression})`);
+  /**
+   * Validate if a permission expression is syntactically correct
+   */
+  const isValidExpression = (expression: string): boolean => {
+    try {
+      compileExpression(expression, wildcardMode);
       return true;
     } catch {
       return false;
     }
   };
 
+  /**
+   * Validate an expression and report every error with its position, e.g.
+   * for underlining mistakes in an editor
+   * Example: validateExpression('users.* && (posts.*')
+   *   => { valid: false, errors: [{ code: 'unbalanced_parenthesis', start: 11, end: 12, ... }] }
+   */
+  const validateExpression = (
+    expression: string
+  ): ExpressionValidationResult => {
+    return validateExpressionSyntax(expression, wildcardMode);
+  };
+
+  /**
+   * Check a gate or policy ability, like Laravel's Gate::allows. Gates
+   * receive the authenticated user, with the permission helpers above
+   * attached, and the given arguments. Guests are always denied by gates.
+   * An ability without a gate is checked as a permission, the way Spatie
+   * lets `can()` fall through to permissions.
+   * Example: can('update-post', post)
+   */
+  const can = (ability: string, ...args: unknown[]): boolean => {
+    return intercept(ability, args, () => {
+      const gate = getGate(ability);
+      if (!gate) return checkPermission(ability);
+
+      const user = gateUser();
+      if (!user) return false;
+
+      try {
+        return gate(user, ...args) === true;
+      } catch (error) {
+        console.warn('Gate check failed:', ability, error);
+        return false;
+      }
+    });
+  };
+
   return {
     userPermissions,
+    deniedPermissions,
+    activeTeam,
+    guard,
+    roles,
     hasPermission,
     hasAnyPermission,
     hasAllPermissions,
@@ -284,7 +610,17 @@ export function usePermissions(permissions?: string[]) {
     hasAllPatterns,
     getMatchingPermissions,
     checkExpression,
+    can,
+    canResource,
+    hasRole,
+    hasAnyRole,
+    hasAllRoles,
+    entitlement,
+    usage,
+    hasQuota,
+    explainExpression,
     isValidExpression,
-    isAuthenticated: !!auth?.user,
+    validateExpression,
+    isAuthenticated: !!user,
   };
 }
@@ -1,16 +1,51 @@
 // Main exports
 export { Can } from './components/can';
+export { PermissionTeamScope } from './components/permission-team-scope';
+export { PermissionsProvider } from './components/permissions-provider';
+export { Role } from './components/role';
+export { UnlessRole } from './components/unless-role';
 export { withPermission } from './components/with-permission';
 export { usePermissions } from './hooks/use-permissions';
+export {
+  clearGates,
+  defineAfter,
+  defineBefore,
+  defineGate,
+  definePolicy,
+} from './lib/gate';
+export { configurePermissions } from './lib/config';
+export { clearRoles, defineRoles, RoleDefinitionError } from './lib/roles';
 
 // Type exports
 export type {
+  AbilityMap,
   Auth,
+  Entitlements,
   SharedData,
+  TeamId,
   User,
   NavItem,
+  PermissionImplications,
+  PermissionSource,
+  PermissionsConfig,
+  ProvidedAuth,
+  ProvidedUser,
+  RoleDefinition,
+  RoleDefinitions,
   PermissionProps,
+  Policy,
   CanProps,
+  ExpressionError,
+  ExpressionErrorCode,
+  ExpressionExplanation,
+  ExpressionValidationResult,
+  GateAfterCallback,
+  GateBeforeCallback,
+  GateCallback,
+  GateUser,
+  UsePermissionsOptions,
+  Usage,
   UsePermissionsReturn,
+  WildcardMode,
   WithPermissionOptions,
 } from './types';
@@ -0,0 +1,32 @@
+/**
+ * Boolean ability maps
+ *
+ * Inertia apps often share `Gate::check` results as a map such as
+ * `{ 'users.create': true, 'users.delete': false }` instead of a permission
+ * list. A map is turned into a list: keys set to true are granted and keys
+ * set to false become '-' denial entries, so they override any grant.
+ */
+
+import { type AbilityMap, type PermissionSource } from '../types';
+
+// Lists per ability map, since the same props object is read on every render
+const lists = new WeakMap<AbilityMap, string[]>();
+
+/**
+ * The permission list of a permission list or ability map
+ */
+export function toPermissionList(
+  source: PermissionSource | null | undefined
+): string[] {
+  if (!source) return [];
+  if (Array.isArray(source)) return source;
+
+  let list = lists.get(source);
+  if (!list) {
+    list = Object.entries(source).map(([ability, allowed]) =>
+      allowed ? ability : `-${ability}`
+    );
+    lists.set(source, list);
+  }
+  return list;
+}
@@ -0,0 +1,126 @@
+/**
+ * Payload configuration
+ *
+ * By default permissions are read from `auth.user.permissions` in the
+ * Inertia page props. Apps sharing them elsewhere, e.g. at
+ * `auth.permissions` or at the root of the props, configure selectors once
+ * at app start; usePermissions, Can and withPermission then read through
+ * them. The same configuration sets where resources keep their abilities,
+ * where plan entitlements and quota usage are shared, and the guard,
+ * wildcard mode and implication map of checks that do not choose their own.
+ */
+
+import {
+  type PermissionImplications,
+  type PermissionsConfig,
+  type ProvidedAuth,
+  type ProvidedUser,
+  type SharedData,
+  type WildcardMode,
+} from '../types';
+
+let config: PermissionsConfig<Record<string, unknown>> = {};
+
+/**
+ * Configure where permissions, roles and the user live in the page props,
+ * and the defaults every check uses. Pass your own SharedData type to type
+ * the selectors. Selectors that are left out keep their default, and each
+ * call replaces the previous configuration.
+ *
+ * @example
+ * configurePermissions<AppSharedData>({
+ *   user: props => props.auth.user,
+ *   permissions: props => props.auth.permissions,
+ *   roles: props => props.auth.roles,
+ *   wildcardMode: 'spatie',
+ * });
+ */
+export function configurePermissions<TShared = SharedData>(
+  configuration: PermissionsConfig<TShared>
+): void {
+  config = configuration as PermissionsConfig<Record<string, unknown>>;
+}
+
+/**
+ * Remove the configured selectors (mainly useful in tests)
+ */
+export function resetPermissionsConfig(): void {
+  config = {};
+}
+
+/**
+ * The guard of checks that do not pass their own, like
+ * `auth.defaults.guard` in Laravel's config
+ */
+export function getDefaultGuard(): string {
+  return config.guard ?? 'web';
+}
+
+/**
+ * The wildcard mode of checks that do not pass their own
+ */
+export function getDefaultWildcardMode(): WildcardMode {
+  return config.wildcardMode ?? 'greedy';
+}
+
+/**
+ * The implication map of checks that do not pass their own
+ */
+export function getDefaultImplications(): PermissionImplications | undefined {
+  return config.implications;
+}
+
+/**
+ * Whether a resource allows an ability through its abilities key, e.g.
+ * `post.can.update` from a Laravel API resource. An ability that is not a
+ * boolean, or a resource without the key, gives the configured default;
+ * without a resource the check fails.
+ */
+export function resourceAllows(
+  resource: object | null | undefined,
+  ability: string
+): boolean {
+  if (!resource) return false;
+
+  const abilities = (resource as Record<string, unknown>)[
+    config.resourceKey ?? 'can'
+  ];
+  const allowed =
+    abilities && typeof abilities === 'object'
+      ? (abilities as Record<string, unknown>)[ability]
+      : undefined;
+  return typeof allowed === 'boolean'
+    ? allowed
+    : (config.resourceDefault ?? false);
+}
+
+/**
+ * Read the auth data from the page props through the configured selectors
+ */
+export function selectAuth(props: SharedData): ProvidedAuth {
+  const { user, permissions, roles, entitlements, usage } = config;
+
+  let auth: ProvidedAuth = props.auth;
+  if (entitlements || usage) {
+    auth = {
+      ...auth,
+      entitlements: entitlements
+        ? (entitlements(props) ?? undefined)
+        : auth?.entitlements,
+      usage: usage ? (usage(props) ?? undefined) : auth?.usage,
+    };
+  }
+  if (!user && !permissions && !roles) return auth;
+
+  const selected = user ? user(props) : auth?.user;
+  if (!selected) return { ...auth, user: null };
+
+  return {
+    ...auth,
+    user: {
+      ...selected,
+      permissions: permissions ? permissions(props) : selected.permissions,
+      roles: roles ? roles(props) : selected.roles,
+    } as ProvidedUser,
+  };
+}
@@ -0,0 +1,414 @@
+/**
+ * Expression evaluation
+ *
+ * Walks the AST produced by the parser against an EvaluationContext that
+ * knows about the current user's permissions. Compiled expressions are kept
+ * in a module-level LRU cache keyed by the expression string, so every
+ * `<Can>` sharing an expression parses it and builds its wildcard matchers
+ * only once.
+ */
+
+import {
+  type ExpressionExplanation,
+  type ExpressionValue,
+  type WildcardMode,
+} from '../types';
+import { LruCache } from './cache';
+import {
+  parseExpression,
+  type AttributeSource,
+  type CompareNode,
+  type ExpressionNode,
+  type PermissionNode,
+  type ThresholdNode,
+  type ValueNode,
+} from './expression';
+import { type PatternMatcher } from './pattern';
+
+/**
+ * Everything an expression needs to know about the current user
+ */
+export interface EvaluationContext {
+  /** Whether the user satisfies a compiled pattern */
+  matches: (matcher: PatternMatcher) => boolean;
+  /** The user's permissions that a compiled pattern matches */
+  collect: (matcher: PatternMatcher) => string[];
+  /** Whether the user has a role; without it, role leaves never pass */
+  hasRole?: (role: string) => boolean;
+  /**
+   * Whether the resource the expression is checked against allows an
+   * ability; without it, resource leaves never pass
+   */
+  canResource?: (ability: string) => boolean;
+  /**
+   * The object attributes such as user.department are read from; without
+   * it, attributes are null
+   */
+  attributes?: (source: AttributeSource) => unknown;
+  /** A plan entitlement; without it, entitlements are null */
+  entitlement?: (key: string) => ExpressionValue;
+  /** How much of a quota is used; without it, usage is 0 */
+  usage?: (key: string) => number;
+}
+
+/**
+ * A parsed expression, whose permission leaves carry their pre-built
+ * matchers
+ */
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+}
+
+const expressionCache = new LruCache<string, CompiledExpression>(500);
+
+/**
+ * Parse an expression and compile its patterns, reusing a cached result
+ * when the same expression has been seen before in the same wildcard mode
+ */
+export function compileExpression(
+  expression: string,
+  mode: WildcardMode = 'greedy'
+): CompiledExpression {
+  const key = `${mode}:${expression}`;
+  const cached = expressionCache.get(key);
+  if (cached) return cached;
+
+  const compiled: CompiledExpression = {
+    source: expression,
+    ast: parseExpression(expression, mode),
+  };
+  expressionCache.set(key, compiled);
+  return compiled;
+}
+
+/**
+ * Clear compiled expressions (mainly useful in tests)
+ */
+export function clearExpressionCache(): void {
+  expressionCache.clear();
+}
+
+// A number, or a string holding one, as a number
+function toNumber(value: ExpressionValue): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+// Equality where an id shared as a string still equals the same number
+function equals(left: ExpressionValue, right: ExpressionValue): boolean {
+  if (typeof left === 'number' || typeof right === 'number') {
+    const a = toNumber(left);
+    return a !== null && a === toNumber(right);
+  }
+  return left === right;
+}
+
+// Negative, zero or positive when left sorts before, with or after right,
+// or null when they cannot be ordered, e.g. a string and a boolean
+function order(left: ExpressionValue, right: ExpressionValue): number | null {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return null;
+}
+
+// An unlimited entitlement (true) orders above every number, as in hasQuota
+function toLimit(node: ValueNode, value: ExpressionValue): ExpressionValue {
+  return node.type === 'entitlement' && value === true ? Infinity : value;
+}
+
+function compare(
+  node: CompareNode,
+  left: ExpressionValue,
+  right: ExpressionValue
+): boolean {
+  const { operator } = node;
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case 'in':
+      return Array.isArray(right) && right.some(item => equals(left, item));
+  }
+
+  const difference = order(
+    toLimit(node.left, left),
+    toLimit(node.right, right)
+  );
+  if (difference === null) return false;
+  switch (operator) {
+    case '>':
+      return difference > 0;
+    case '>=':
+      return difference >= 0;
+    case '<':
+      return difference < 0;
+    case '<=':
+      return difference <= 0;
+  }
+}
+
+// Turn anything read from an attribute into a value expressions can
+// compare; objects and functions become null
+function toValue(value: unknown): ExpressionValue {
+  if (Array.isArray(value)) return value.map(toValue);
+  if (
+    typeof value === 'number' ||
+    typeof value === 'string' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  return null;
+}
+
+// Read an attribute by following own properties only, so names such as
+// 'constructor' or '__proto__' never reach the prototype chain
+function readAttribute(root: unknown, path: string[]): ExpressionValue {
+  let value = root;
+  for (const key of path) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return toValue(value);
+}
+
+// Whether the number of passing operands satisfies a threshold function
+function meetsThreshold(node: ThresholdNode, passed: number): boolean {
+  switch (node.name) {
+    case 'atLeast':
+      return passed >= node.count;
+    case 'atMost':
+      return passed <= node.count;
+    case 'exactly':
+      return passed === node.count;
+  }
+}
+
+// Granted permissions matched by any of the patterns, without duplicates
+function collectAll(
+  patterns: PermissionNode[],
+  context: EvaluationContext
+): string[] {
+  const matched = new Set<string>();
+  patterns.forEach(pattern =>
+    context.collect(pattern.matcher).forEach(permission => {
+      matched.add(permission);
+    })
+  );
+  return [...matched];
+}
+
+function evaluateValue(
+  node: ValueNode,
+  context: EvaluationContext
+): ExpressionValue {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'constant':
+      return node.value;
+    case 'count':
+      return collectAll(node.patterns, context).length;
+    case 'attribute':
+      return readAttribute(context.attributes?.(node.source), node.path);
+    case 'entitlement':
+      return context.entitlement?.(node.key) ?? null;
+    case 'usage':
+      return context.usage?.(node.key) ?? 0;
+    case 'list':
+      return node.items.map(item => evaluateValue(item, context));
+  }
+}
+
+/**
+ * Evaluate a parsed expression. `&&` and `||` short-circuit, and threshold
+ * functions stop as soon as the outcome is known.
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  context: EvaluationContext
+): boolean {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'permission':
+      return context.matches(node.matcher);
+    case 'role':
+      return context.hasRole?.(node.role) ?? false;
+    case 'resource':
+      return context.canResource?.(node.ability) ?? false;
+    case 'not':
+      return !evaluateExpression(node.operand, context);
+    case 'and':
+      return (
+        evaluateExpression(node.left, context) &&
+        evaluateExpression(node.right, context)
+      );
+    case 'or':
+      return (
+        evaluateExpression(node.left, context) ||
+        evaluateExpression(node.right, context)
+      );
+    case 'xor':
+      // Both sides always decide the result, so nothing to short-circuit
+      return (
+        evaluateExpression(node.left, context) !==
+        evaluateExpression(node.right, context)
+      );
+    case 'compare':
+      return compare(
+        node,
+        evaluateValue(node.left, context),
+        evaluateValue(node.right, context)
+      );
+    case 'threshold': {
+      let passed = 0;
+      for (const operand of node.operands) {
+        if (evaluateExpression(operand, context)) passed++;
+        if (node.name === 'atLeast' && passed >= node.count) return true;
+        if (node.name !== 'atLeast' && passed > node.count) return false;
+      }
+      return meetsThreshold(node, passed);
+    }
+  }
+}
+
+/**
+ * Evaluate a compiled expression
+ */
+export function evaluateCompiledExpression(
+  compiled: CompiledExpression,
+  context: EvaluationContext
+): boolean {
+  return evaluateExpression(compiled.ast, context);
+}
+
+/**
+ * Evaluate every node of a compiled expression and report each result.
+ * Unlike evaluation, nothing is short-circuited, so the trace always shows
+ * the full tree.
+ */
+export function explainCompiledExpression(
+  compiled: CompiledExpression,
+  context: EvaluationContext
+): ExpressionExplanation {
+  const source = (node: ExpressionNode | ValueNode) =>
+    compiled.source.slice(node.start, node.end);
+
+  const explainValue = (node: ValueNode): ExpressionExplanation => {
+    if (node.type !== 'count') {
+      const value = evaluateValue(node, context);
+      return {
+        type: node.type,
+        expression: source(node),
+        result: Array.isArray(value) ? value.length > 0 : Boolean(value),
+        value,
+      };
+    }
+    const matches = collectAll(node.patterns, context);
+    return {
+      type: node.type,
+      expression: source(node),
+      result: matches.length > 0,
+      value: matches.length,
+      matches,
+    };
+  };
+
+  const explain = (node: ExpressionNode): ExpressionExplanation => {
+    const expression = source(node);
+
+    switch (node.type) {
+      case 'literal':
+        return { type: node.type, expression, result: node.value };
+      case 'permission':
+        return {
+          type: node.type,
+          expression,
+          result: context.matches(node.matcher),
+          matches: context.collect(node.matcher),
+        };
+      case 'role':
+        return {
+          type: node.type,
+          expression,
+          result: context.hasRole?.(node.role) ?? false,
+        };
+      case 'resource':
+        return {
+          type: node.type,
+          expression,
+          result: context.canResource?.(node.ability) ?? false,
+        };
+      case 'not': {
+        const operand = explain(node.operand);
+        return {
+          type: node.type,
+          expression,
+          result: !operand.result,
+          children: [operand],
+        };
+      }
+      case 'and':
+      case 'or':
+      case 'xor': {
+        const left = explain(node.left);
+        const right = explain(node.right);
+        return {
+          type: node.type,
+          expression,
+          result:
+            node.type === 'and'
+              ? left.result && right.result
+              : node.type === 'or'
+                ? left.result || right.result
+                : left.result !== right.result,
+          children: [left, right],
+        };
+      }
+      case 'compare': {
+        const left = explainValue(node.left);
+        const right = explainValue(node.right);
+        return {
+          type: node.type,
+          expression,
+          result: compare(
+            node,
+            left.value as ExpressionValue,
+            right.value as ExpressionValue
+          ),
+          children: [left, right],
+        };
+      }
+      case 'threshold': {
+        const children = node.operands.map(explain);
+        const passed = children.filter(child => child.result).length;
+        return {
+          type: node.type,
+          expression,
+          result: meetsThreshold(node, passed),
+          value: passed,
+          children,
+        };
+      }
+    }
+  };
+
+  return explain(compiled.ast);
+}
@@ -0,0 +1,1203 @@
+/**
+ * Permission expression language
+ *
+ * Expressions are tokenized and parsed into an AST by a small
+ * recursive-descent parser, then evaluated by walking the tree.
+ * No code is generated at runtime, so expressions keep working under a
+ * Content-Security-Policy without 'unsafe-eval'.
+ *
+ * Grammar (lowest to highest precedence):
+ *   expression := or
+ *   or         := xor (('||' | '|' | 'or') xor)*
+ *   xor        := and ('xor' and)*
+ *   and        := unary (('&&' | '&' | 'and') unary)*
+ *   unary      := ('!' | 'not') unary | comparison
+ *   comparison := value ('==' | '!=' | '>' | '>=' | '<' | '<=' | 'in') value
+ *               | primary
+ *   primary    := '(' expression ')' | 'true' | 'false' | threshold | role
+ *               | resource | pattern | regex
+ *   role       := 'role:' name
+ *   resource   := 'resource:' ability
+ *   threshold  := ('atLeast' | 'atMost' | 'exactly')
+ *                 '(' number (',' expression)+ ')'
+ *   value      := number | string | 'null' | 'true' | 'false' | attribute
+ *               | 'count' '(' pattern (',' pattern)* ')'
+ *               | ('entitlement' | 'usage') '(' name ')'
+ *               | '[' value (',' value)* ']'
+ *   attribute  := ('user' | 'resource') '.' name ('.' name)*
+ *
+ * A pattern may use '*' and '?' wildcards, brace groups such as
+ * 'posts.{create,edit}' and character classes such as 'report_[0-9]'.
+ * Where that is not enough, a regex literal such as
+ * '/^report_\d{4}_q[1-4]\.view$/i' is tested against each permission.
+ * In 'spatie' mode patterns are Spatie wildcard permissions instead, such
+ * as 'posts:create,edit', so function arguments must be separated by a
+ * comma and a space.
+ *
+ * A leaf such as 'role:admin' checks a role instead of a permission, so
+ * 'role:admin || users.*' mixes both. Likewise 'resource:update' checks an
+ * ability of the resource the expression is checked against. Role names
+ * and abilities are matched exactly.
+ *
+ * Comparisons may also read attributes of the user or the resource, such
+ * as "user.department == 'finance'" or 'user.id == resource.owner_id', and
+ * test membership with "user.plan in ['pro', 'team']". Attributes are
+ * looked up as plain own properties, never evaluated as code.
+ *
+ * Plan limits are compared the same way: entitlement(projects.max) reads
+ * a shared entitlement and usage(projects.count) how much of a quota is
+ * used, as in 'entitlement(projects.max) > usage(projects.count)'.
+ *
+ * Word operators and function names are case-insensitive and only
+ * recognised as whole tokens, so a permission such as 'orders.view' is
+ * still a plain pattern. Every pattern is compiled to a matcher while
+ * parsing, so the AST is ready to evaluate.
+ */
+
+import {
+  type ExpressionError,
+  type ExpressionErrorCode,
+  type ExpressionValidationResult,
+  type WildcardMode,
+} from '../types';
+import {
+  compilePattern,
+  compileRegExp,
+  PatternSyntaxError,
+  type PatternMatcher,
+} from './pattern';
+
+export type TokenType =
+  | 'or'
+  | 'xor'
+  | 'and'
+  | 'not'
+  | 'compare'
+  | 'comma'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'pattern'
+  | 'regex'
+  | 'string';
+
+export interface Token {
+  type: TokenType;
+  /** Source text of the token */
+  value: string;
+  /** Offset of the first character of the token */
+  start: number;
+  /** Offset just past the last character of the token */
+  end: number;
+}
+
+interface Span {
+  /** Offset of the first character of the node */
+  start: number;
+  /** Offset just past the last character of the node */
+  end: number;
+}
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'in';
+
+export type ThresholdFunction = 'atLeast' | 'atMost' | 'exactly';
+
+export interface LiteralNode extends Span {
+  type: 'literal';
+  value: boolean;
+}
+
+export interface PermissionNode extends Span {
+  type: 'permission';
+  pattern: string;
+  matcher: PatternMatcher;
+}
+
+export interface RoleNode extends Span {
+  type: 'role';
+  role: string;
+}
+
+export interface ResourceNode extends Span {
+  type: 'resource';
+  ability: string;
+}
+
+export interface NotNode extends Span {
+  type: 'not';
+  operand: ExpressionNode;
+}
+
+export interface BinaryNode extends Span {
+  type: 'and' | 'or' | 'xor';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface CompareNode extends Span {
+  type: 'compare';
+  operator: ComparisonOperator;
+  left: ValueNode;
+  right: ValueNode;
+}
+
+export interface ThresholdNode extends Span {
+  type: 'threshold';
+  name: ThresholdFunction;
+  /** How many operands must (or may) pass */
+  count: number;
+  operands: ExpressionNode[];
+}
+
+/** A sub-expression that evaluates to a boolean */
+export type ExpressionNode =
+  | LiteralNode
+  | PermissionNode
+  | RoleNode
+  | ResourceNode
+  | NotNode
+  | BinaryNode
+  | CompareNode
+  | ThresholdNode;
+
+export interface NumberNode extends Span {
+  type: 'number';
+  value: number;
+}
+
+export interface CountNode extends Span {
+  type: 'count';
+  /** Number of granted permissions matching any of the patterns */
+  patterns: PermissionNode[];
+}
+
+export interface StringNode extends Span {
+  type: 'string';
+  value: string;
+}
+
+export interface ConstantNode extends Span {
+  type: 'constant';
+  value: boolean | null;
+}
+
+/** Where an attribute is read from */
+export type AttributeSource = 'user' | 'resource';
+
+export interface AttributeNode extends Span {
+  type: 'attribute';
+  source: AttributeSource;
+  /** Property names leading to the attribute, e.g. ['address', 'country'] */
+  path: string[];
+}
+
+export interface QuotaNode extends Span {
+  /** Read from the shared entitlements or usage */
+  type: 'entitlement' | 'usage';
+  key: string;
+}
+
+export interface ListNode extends Span {
+  type: 'list';
+  items: ValueNode[];
+}
+
+/** A sub-expression that evaluates to a value, used in comparisons */
+export type ValueNode =
+  | NumberNode
+  | CountNode
+  | StringNode
+  | ConstantNode
+  | AttributeNode
+  | QuotaNode
+  | ListNode;
+
+/**
+ * Thrown when an expression cannot be tokenized or parsed
+ */
+export class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ExpressionErrorCode,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message);
+    this.name = 'ExpressionSyntaxError';
+  }
+
+  toJSON(): ExpressionError {
+    return {
+      message: this.message,
+      code: this.code,
+      start: this.start,
+      end: this.end,
+    };
+  }
+}
+
+// Characters allowed inside a permission name or pattern, e.g.
+// 'users.create', 'posts.*', 'user?.edit', 'properties.view-all'
+const PATTERN_CHAR = /[A-Za-z0-9_.*?:-]/;
+
+// Word operators, matched case-insensitively against whole tokens
+const KEYWORDS = new Map<string, TokenType>([
+  ['and', 'and'],
+  ['or', 'or'],
+  ['xor', 'xor'],
+  ['not', 'not'],
+  ['in', 'compare'],
+]);
+
+// Functions taking a threshold followed by sub-expressions, keyed by their
+// lower-cased name
+const THRESHOLD_FUNCTIONS = new Map<string, ThresholdFunction>([
+  ['atleast', 'atLeast'],
+  ['atmost', 'atMost'],
+  ['exactly', 'exactly'],
+]);
+
+const COMPARISON_OPERATORS = ['==', '!=', '>=', '<=', '>', '<'];
+
+const NUMBER = /^\d+(\.\d+)?$/;
+
+// Values that are not numbers, strings or attributes
+const CONSTANTS = new Map<string, boolean | null>([
+  ['true', true],
+  ['false', false],
+  ['null', null],
+]);
+
+const ATTRIBUTE = /^(user|resource)((\.[A-Za-z0-9_-]+)+)$/;
+
+// Functions reading a plan limit or its usage, by lower-cased name
+const QUOTA_FUNCTIONS = new Set<string>(['entitlement', 'usage']);
+
+// A word operator standing on its own, as in 'posts.view and posts.edit',
+// as opposed to a Spatie-style name with spaces such as 'edit articles'
+const WORD_OPERATOR = /(^|\s)(and|or|xor|not|in)(?=\s|$)/i;
+
+const ROLE_PREFIX = /^role:/i;
+
+const RESOURCE_PREFIX = /^resource:/i;
+
+// Find the end of a pattern starting at `index`. Commas inside a brace
+// group such as 'posts.{create,edit}' and anything but whitespace inside a
+// character class such as '[0-9]' belong to the pattern. With `subparts`,
+// a comma between two pattern characters separates Spatie subparts, as in
+// 'posts:create,edit', instead of function arguments.
+function scanPattern(
+  expression: string,
+  index: number,
+  subparts: boolean
+): number {
+  const start = index;
+  let depth = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (char === '[') {
+      const close = expression.indexOf(']', index + 1);
+      const content = expression.slice(index + 1, close);
+      if (close > index + 1 && !/\s/.test(content)) {
+        index = close + 1;
+        continue;
+      }
+    }
+
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === ',') {
+      const joinsSubparts =
+        subparts &&
+        index > start &&
+        PATTERN_CHAR.test(expression[index + 1] ?? '');
+      if (depth === 0 && !joinsSubparts) break;
+    } else if (!PATTERN_CHAR.test(char)) {
+      break;
+    }
+    index++;
+  }
+
+  return index;
+}
+
+const unterminatedRegExp = (start: number, end: number) =>
+  new ExpressionSyntaxError(
+    'Unterminated regular expression',
+    'invalid_regex',
+    start,
+    end
+  );
+
+const unterminatedString = (start: number, end: number) =>
+  new ExpressionSyntaxError(
+    'Unterminated string',
+    'unterminated_string',
+    start,
+    end
+  );
+
+// Find the end of a string literal starting at the quote at `index`, or -1
+// when it is never closed. A backslash escapes the next character.
+function scanString(expression: string, index: number): number {
+  const quote = expression[index];
+
+  for (index++; index < expression.length; index++) {
+    const char = expression[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === quote) {
+      return index + 1;
+    }
+  }
+
+  return -1;
+}
+
+// The text of a string literal token, without quotes and escapes
+function unquote(value: string): string {
+  return value.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+// Find the end of a regex literal starting at the '/' at `index`, including
+// its flags, or -1 when it is never closed. A '/' inside a character class
+// or after a backslash does not close it.
+function scanRegExp(expression: string, index: number): number {
+  let inClass = false;
+
+  for (index++; index < expression.length; index++) {
+    const char = expression[index];
+
+    if (char === '\\') {
+      index++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      index++;
+      while (index < expression.length && /[A-Za-z]/.test(expression[index])) {
+        index++;
+      }
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Split an expression into tokens. Illegal characters throw, unless an
+ * `errors` array is given, in which case they are recorded and skipped so
+ * the rest of the expression can still be checked. In 'spatie' mode a
+ * comma with no surrounding whitespace stays inside the permission.
+ */
+export function tokenize(
+  expression: string,
+  errors?: ExpressionSyntaxError[],
+  mode: WildcardMode = 'greedy'
+): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  // Open '[' of lists after 'in', as opposed to character classes
+  let listDepth = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '|' || char === '&') {
+      // '||' and '|' are both OR, '&&' and '&' are both AND
+      const length = expression[index + 1] === char ? 2 : 1;
+      tokens.push({
+        type: char === '|' ? 'or' : 'and',
+        value: expression.slice(index, index + length),
+        start: index,
+        end: index + length,
+      });
+      index += length;
+      continue;
+    }
+
+    const operator = COMPARISON_OPERATORS.find(candidate =>
+      expression.startsWith(candidate, index)
+    );
+    if (operator) {
+      tokens.push({
+        type: 'compare',
+        value: operator,
+        start: index,
+        end: index + operator.length,
+      });
+      index += operator.length;
+      continue;
+    }
+
+    if (char === '!' || char === '(' || char === ')' || char === ',') {
+      tokens.push({
+        type:
+          char === '!'
+            ? 'not'
+            : char === ','
+              ? 'comma'
+              : char === '('
+                ? 'lparen'
+                : 'rparen',
+        value: char,
+        start: index,
+        end: index + 1,
+      });
+      index++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+    const opensList =
+      char === '[' &&
+      previous?.type === 'compare' &&
+      previous.value.toLowerCase() === 'in';
+    if (opensList || (char === ']' && listDepth > 0)) {
+      listDepth += opensList ? 1 : -1;
+      tokens.push({
+        type: opensList ? 'lbracket' : 'rbracket',
+        value: char,
+        start: index,
+        end: index + 1,
+      });
+      index++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const end = scanString(expression, index);
+      if (end === -1 && !errors) {
+        throw unterminatedString(index, expression.length);
+      }
+      // As with regex literals, the parser reports an unterminated string
+      const tokenEnd = end === -1 ? expression.length : end;
+      tokens.push({
+        type: 'string',
+        value: expression.slice(index, tokenEnd),
+        start: index,
+        end: tokenEnd,
+      });
+      index = tokenEnd;
+      continue;
+    }
+
+    if (char === '/') {
+      const end = scanRegExp(expression, index);
+      if (end === -1 && !errors) {
+        throw unterminatedRegExp(index, expression.length);
+      }
+      // When collecting errors the rest of the expression still becomes a
+      // regex token, which the parser then reports as unterminated
+      const tokenEnd = end === -1 ? expression.length : end;
+      tokens.push({
+        type: 'regex',
+        value: expression.slice(index, tokenEnd),
+        start: index,
+        end: tokenEnd,
+      });
+      index = tokenEnd;
+      continue;
+    }
+
+    const end = scanPattern(expression, index, mode === 'spatie');
+    if (end > index) {
+      const value = expression.slice(index, end);
+      tokens.push({
+        type: KEYWORDS.get(value.toLowerCase()) ?? 'pattern',
+        value,
+        start: index,
+        end,
+      });
+      index = end;
+      continue;
+    }
+
+    const error = new ExpressionSyntaxError(
+      `Unexpected character '${char}'`,
+      'illegal_character',
+      index,
+      index + 1
+    );
+    if (!errors) throw error;
+    errors.push(error);
+    index++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Whether a string needs the expression parser, i.e. it uses wildcards,
+ * brace groups, character classes, regex literals, role or resource
+ * leaves, operators, negation or grouping. Anything else, including names
+ * with spaces such as 'edit articles', is a plain permission name that can
+ * be compared directly.
+ */
+export function isExpression(value: string): boolean {
+  return (
+    /[*?|&!()<>=,{]/.test(value) ||
+    WORD_OPERATOR.test(value) ||
+    /\[[^\]]+\]/.test(value) ||
+    value.trimStart().startsWith('/') ||
+    ROLE_PREFIX.test(value.trimStart()) ||
+    RESOURCE_PREFIX.test(value.trimStart())
+  );
+}
+
+/**
+ * Whether a string is only an expression because of its word operators,
+ * such as 'read and write' or 'users.create and posts.view', and so may
+ * just as well be a permission name
+ */
+export function usesOnlyWordOperators(value: string): boolean {
+  return (
+    WORD_OPERATOR.test(value) &&
+    !/[*?|&!()<>=,{[\]'"]/.test(value) &&
+    !value.trimStart().startsWith('/')
+  );
+}
+
+/**
+ * Whether a string is one pattern rather than an expression, i.e. it has
+ * no operators, negation, grouping, functions, strings, regex literals,
+ * boolean literals or role and resource leaves. A single pattern may use
+ * punctuation the tokenizer rejects, such as 'users.create+' or a lone
+ * parenthesis in 'a(*', since it is compiled directly.
+ */
+export function isSinglePattern(value: string): boolean {
+  const trimmed = value.trim();
+  return (
+    trimmed !== '' &&
+    trimmed !== 'true' &&
+    trimmed !== 'false' &&
+    !/[|&!<>='"]/.test(trimmed) &&
+    !/\(.*\)/.test(trimmed) &&
+    !WORD_OPERATOR.test(trimmed) &&
+    !trimmed.startsWith('/') &&
+    !ROLE_PREFIX.test(trimmed) &&
+    !RESOURCE_PREFIX.test(trimmed)
+  );
+}
+
+/**
+ * Parse an expression into an AST
+ */
+export function parseExpression(
+  expression: string,
+  mode: WildcardMode = 'greedy'
+): ExpressionNode {
+  return parseTokens(tokenize(expression, undefined, mode), expression, mode);
+}
+
+function isBinaryOperator(token: Token): boolean {
+  return (
+    token.type === 'or' ||
+    token.type === 'xor' ||
+    token.type === 'and' ||
+    token.type === 'compare'
+  );
+}
+
+// Compile a pattern token, reporting pattern errors at their position in
+// the expression
+function compileTokenPattern(token: Token, mode: WildcardMode): PatternMatcher {
+  try {
+    return compilePattern(token.value, mode);
+  } catch (error) {
+    if (!(error instanceof PatternSyntaxError)) throw error;
+    throw new ExpressionSyntaxError(
+      error.message,
+      'invalid_pattern',
+      token.start + error.start,
+      token.start + error.end
+    );
+  }
+}
+
+// Compile a regex literal token, reporting an invalid regex or unsupported
+// flags at their position in the expression
+function compileRegExpToken(token: Token): PatternMatcher {
+  if (scanRegExp(token.value, 0) !== token.value.length) {
+    throw unterminatedRegExp(token.start, token.end);
+  }
+  try {
+    return compileRegExp(token.value);
+  } catch (error) {
+    if (!(error instanceof PatternSyntaxError)) throw error;
+    throw new ExpressionSyntaxError(
+      `Invalid regular expression ${token.value}: ${error.message}`,
+      'invalid_regex',
+      token.start + error.start,
+      token.start + error.end
+    );
+  }
+}
+
+function parseTokens(
+  tokens: Token[],
+  expression: string,
+  mode: WildcardMode = 'greedy'
+): ExpressionNode {
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  // Build the error for a position where an operand was expected
+  const missingOperand = (token: Token | undefined) => {
+    const previous = tokens[position - 1];
+
+    if (!previous && !token) {
+      return new ExpressionSyntaxError(
+        'Expression is empty',
+        'empty_expression',
+        0,
+        expression.length
+      );
+    }
+    if (previous?.type === 'lparen' && token?.type === 'rparen') {
+      return new ExpressionSyntaxError(
+        'Empty parentheses',
+        'empty_group',
+        previous.start,
+        token.end
+      );
+    }
+    if (previous?.type === 'lparen' && !token) {
+      return new ExpressionSyntaxError(
+        "Unclosed '('",
+        'unbalanced_parenthesis',
+        previous.start,
+        previous.end
+      );
+    }
+    if (previous?.type === 'comma') {
+      return new ExpressionSyntaxError(
+        "Missing argument after ','",
+        'invalid_argument',
+        previous.start,
+        previous.end
+      );
+    }
+    if (token && isBinaryOperator(token)) {
+      return new ExpressionSyntaxError(
+        `Operator '${token.value}' is missing its left operand`,
+        'dangling_operator',
+        token.start,
+        token.end
+      );
+    }
+    if (previous && previous.type !== 'lparen') {
+      return new ExpressionSyntaxError(
+        `Operator '${previous.value}' is missing its right operand`,
+        'dangling_operator',
+        previous.start,
+        previous.end
+      );
+    }
+    if (token?.type === 'rparen') {
+      return new ExpressionSyntaxError(
+        "Unmatched ')'",
+        'unbalanced_parenthesis',
+        token.start,
+        token.end
+      );
+    }
+    return new ExpressionSyntaxError(
+      'Unexpected end of expression, expected a permission',
+      'unexpected_token',
+      expression.length,
+      expression.length
+    );
+  };
+
+  const parseOr = (): ExpressionNode => {
+    let left = parseXor();
+    while (peek()?.type === 'or') {
+      position++;
+      const right = parseXor();
+      left = { type: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseXor = (): ExpressionNode => {
+    let left = parseAnd();
+    while (peek()?.type === 'xor') {
+      position++;
+      const right = parseAnd();
+      left = { type: 'xor', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseUnary();
+    while (peek()?.type === 'and') {
+      position++;
+      const right = parseUnary();
+      left = { type: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (token?.type === 'not') {
+      position++;
+      const operand = parseUnary();
+      return { type: 'not', operand, start: token.start, end: operand.end };
+    }
+    return parseComparison();
+  };
+
+  // A number, constant or attribute only starts a comparison when an
+  // operator follows it, so a permission named e.g. '2fa', '2' or
+  // 'user.edit' still parses as a pattern
+  const startsValue = (): boolean => {
+    const token = peek();
+    const next = tokens[position + 1];
+    if (token?.type === 'string') return true;
+    if (token?.type !== 'pattern') return false;
+    const name = token.value.toLowerCase();
+    if (name === 'count' || QUOTA_FUNCTIONS.has(name)) {
+      return next?.type === 'lparen';
+    }
+    return (
+      next?.type === 'compare' &&
+      (NUMBER.test(token.value) ||
+        CONSTANTS.has(token.value) ||
+        ATTRIBUTE.test(token.value))
+    );
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    if (!startsValue()) return parsePrimary();
+
+    const left = parseValue();
+    const operator = peek();
+    if (operator?.type !== 'compare') {
+      throw new ExpressionSyntaxError(
+        `'${expression.slice(left.start, left.end)}' must be compared, e.g. count(users.*) >= 1`,
+        'missing_comparison',
+        left.start,
+        left.end
+      );
+    }
+    position++;
+    const right = parseValue();
+    return {
+      type: 'compare',
+      operator: operator.value.toLowerCase() as ComparisonOperator,
+      left,
+      right,
+      start: left.start,
+      end: right.end,
+    };
+  };
+
+  const parseValue = (): ValueNode => {
+    const token = peek();
+
+    if (token?.type === 'string') {
+      if (scanString(token.value, 0) !== token.value.length) {
+        throw unterminatedString(token.start, token.end);
+      }
+      position++;
+      return {
+        type: 'string',
+        value: unquote(token.value),
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (token?.type === 'lbracket') {
+      return parseList(token);
+    }
+
+    if (token?.type !== 'pattern') throw missingOperand(token);
+
+    if (CONSTANTS.has(token.value)) {
+      position++;
+      return {
+        type: 'constant',
+        value: CONSTANTS.get(token.value) ?? null,
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    const attribute = ATTRIBUTE.exec(token.value);
+    if (attribute) {
+      position++;
+      return {
+        type: 'attribute',
+        source: attribute[1] as AttributeSource,
+        path: attribute[2].slice(1).split('.'),
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (NUMBER.test(token.value)) {
+      position++;
+      return {
+        type: 'number',
+        value: Number(token.value),
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (token.value.toLowerCase() === 'count') {
+      const { args, end } = parseArguments(token);
+      const patterns = args.map(arg => {
+        if (arg.type !== 'permission') {
+          throw new ExpressionSyntaxError(
+            'count() only accepts permission patterns',
+            'invalid_argument',
+            arg.start,
+            arg.end
+          );
+        }
+        return arg;
+      });
+      return { type: 'count', patterns, start: token.start, end };
+    }
+
+    const quota = token.value.toLowerCase() as QuotaNode['type'];
+    if (QUOTA_FUNCTIONS.has(quota) && tokens[position + 1]?.type === 'lparen') {
+      const { args, end } = parseArguments(token);
+      const [key, extra] = args;
+      if (extra || key.type !== 'permission') {
+        const at = extra ?? key;
+        throw new ExpressionSyntaxError(
+          `${quota}() expects a single name, e.g. ${quota}(projects.max)`,
+          'invalid_argument',
+          at.start,
+          at.end
+        );
+      }
+      return { type: quota, key: key.pattern, start: token.start, end };
+    }
+
+    throw new ExpressionSyntaxError(
+      `Expected a number, string, attribute, count(), entitlement() or usage(), got '${token.value}'`,
+      'invalid_argument',
+      token.start,
+      token.end
+    );
+  };
+
+  // Parse '[' value (',' value)* ']' after 'in'
+  const parseList = (open: Token): ListNode => {
+    position++; // '['
+    const items: ValueNode[] = [];
+    if (peek()?.type !== 'rbracket') {
+      items.push(parseValue());
+      while (peek()?.type === 'comma') {
+        position++;
+        items.push(parseValue());
+      }
+    }
+
+    const closing = peek();
+    if (closing?.type !== 'rbracket') {
+      if (!closing) {
+        throw new ExpressionSyntaxError(
+          "Unclosed '['",
+          'unbalanced_parenthesis',
+          open.start,
+          open.end
+        );
+      }
+      throw new ExpressionSyntaxError(
+        `Unexpected '${closing.value}', expected ']'`,
+        'unexpected_token',
+        closing.start,
+        closing.end
+      );
+    }
+    position++;
+    return { type: 'list', items, start: open.start, end: closing.end };
+  };
+
+  // Parse '(' expression (',' expression)* ')' after a function name
+  const parseArguments = (name: Token) => {
+    position++; // function name
+    const open = peek();
+    position++; // '('
+    if (peek()?.type === 'rparen') {
+      throw new ExpressionSyntaxError(
+        `${name.value}() needs at least one argument`,
+        'invalid_argument',
+        name.start,
+        (peek() as Token).end
+      );
+    }
+
+    const args: ExpressionNode[] = [parseOr()];
+    while (peek()?.type === 'comma') {
+      position++;
+      args.push(parseOr());
+    }
+
+    const closing = peek();
+    if (closing?.type !== 'rparen') {
+      throw unclosed(open as Token, closing);
+    }
+    position++;
+    return { args, end: closing.end };
+  };
+
+  const parseThreshold = (
+    token: Token,
+    name: ThresholdFunction
+  ): ThresholdNode => {
+    // The threshold is a bare number, which would otherwise parse as a
+    // permission pattern, and nothing else may follow it before the comma
+    const first = tokens[position + 2];
+    if (first?.type !== 'pattern' || !/^\d+$/.test(first.value)) {
+      const at = first ?? token;
+      throw new ExpressionSyntaxError(
+        `${name}() expects a whole number as its first argument`,
+        'invalid_argument',
+        at.start,
+        at.end
+      );
+    }
+    const after = tokens[position + 3];
+    if (after && after.type !== 'comma' && after.type !== 'rparen') {
+      throw new ExpressionSyntaxError(
+        `${name}() expects a whole number as its first argument`,
+        'invalid_argument',
+        first.start,
+        after.end
+      );
+    }
+
+    const { args, end } = parseArguments(token);
+    const [, ...operands] = args;
+    if (operands.length === 0) {
+      throw new ExpressionSyntaxError(
+        `${name}() needs at least one expression after the threshold`,
+        'invalid_argument',
+        token.start,
+        end
+      );
+    }
+
+    return {
+      type: 'threshold',
+      name,
+      count: Number(first.value),
+      operands,
+      start: token.start,
+      end,
+    };
+  };
+
+  // Error for a group or argument list that is not closed by ')'
+  const unclosed = (open: Token, found: Token | undefined) => {
+    if (!found) {
+      return new ExpressionSyntaxError(
+        "Unclosed '('",
+        'unbalanced_parenthesis',
+        open.start,
+        open.end
+      );
+    }
+    return new ExpressionSyntaxError(
+      `Unexpected '${found.value}', expected ')'`,
+      'unexpected_token',
+      found.start,
+      found.end
+    );
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+
+    if (token?.type === 'lparen') {
+      position++;
+      const inner = parseOr();
+      const closing = peek();
+      if (closing?.type !== 'rparen') {
+        throw unclosed(token, closing);
+      }
+      position++;
+      return { ...inner, start: token.start, end: closing.end };
+    }
+
+    if (token?.type === 'pattern' && tokens[position + 1]?.type === 'lparen') {
+      const name = THRESHOLD_FUNCTIONS.get(token.value.toLowerCase());
+      if (!name) {
+        throw new ExpressionSyntaxError(
+          `Unknown function '${token.value}'`,
+          'unknown_function',
+          token.start,
+          token.end
+        );
+      }
+      return parseThreshold(token, name);
+    }
+
+    if (token?.type === 'pattern') {
+      position++;
+      if (token.value === 'true' || token.value === 'false') {
+        return {
+          type: 'literal',
+          value: token.value === 'true',
+          start: token.start,
+          end: token.end,
+        };
+      }
+      if (ROLE_PREFIX.test(token.value)) {
+        const role = token.value.slice('role:'.length);
+        if (!role) {
+          throw new ExpressionSyntaxError(
+            "'role:' needs a role name, e.g. role:admin",
+            'invalid_argument',
+            token.start,
+            token.end
+          );
+        }
+        return { type: 'role', role, start: token.start, end: token.end };
+      }
+      if (RESOURCE_PREFIX.test(token.value)) {
+        const ability = token.value.slice('resource:'.length);
+        if (!ability) {
+          throw new ExpressionSyntaxError(
+            "'resource:' needs an ability, e.g. resource:update",
+            'invalid_argument',
+            token.start,
+            token.end
+          );
+        }
+        return {
+          type: 'resource',
+          ability,
+          start: token.start,
+          end: token.end,
+        };
+      }
+      return {
+        type: 'permission',
+        pattern: token.value,
+        matcher: compileTokenPattern(token, mode),
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (token?.type === 'regex') {
+      position++;
+      return {
+        type: 'permission',
+        pattern: token.value,
+        matcher: compileRegExpToken(token),
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    throw missingOperand(token);
+  };
+
+  const ast = parseOr();
+
+  const extra = tokens[position];
+  if (extra?.type === 'rparen') {
+    throw new ExpressionSyntaxError(
+      "Unmatched ')'",
+      'unbalanced_parenthesis',
+      extra.start,
+      extra.end
+    );
+  }
+  if (extra) {
+    throw new ExpressionSyntaxError(
+      `Unexpected '${extra.value}', expected an operator`,
+      'missing_operator',
+      extra.start,
+      extra.end
+    );
+  }
+
+  return ast;
+}
+
+/**
+ * Check an expression against the grammar and report every problem found,
+ * with positions, instead of stopping at the first one
+ */
+export function validateExpression(
+  expression: string,
+  mode: WildcardMode = 'greedy'
+): ExpressionValidationResult {
+  const errors: ExpressionSyntaxError[] = [];
+  const tokens = tokenize(expression, errors, mode);
+
+  // Report every unbalanced parenthesis, not just the first
+  const open: Token[] = [];
+  for (const token of tokens) {
+    if (token.type === 'lparen') open.push(token);
+    if (token.type === 'rparen' && !open.pop()) {
+      errors.push(
+        new ExpressionSyntaxError(
+          "Unmatched ')'",
+          'unbalanced_parenthesis',
+          token.start,
+          token.end
+        )
+      );
+    }
+  }
+  for (const token of open) {
+    errors.push(
+      new ExpressionSyntaxError(
+        "Unclosed '('",
+        'unbalanced_parenthesis',
+        token.start,
+        token.end
+      )
+    );
+  }
+
+  // Skip the grammar check when the only problem is illegal characters in
+  // an otherwise empty expression
+  if (tokens.length > 0 || errors.length === 0) {
+    try {
+      parseTokens(tokens, expression, mode);
+    } catch (error) {
+      if (!(error instanceof ExpressionSyntaxError)) throw error;
+      const duplicate = errors.some(
+        existing =>
+          existing.code === error.code &&
+          existing.start === error.start &&
+          existing.end === error.end
+      );
+      if (!duplicate) errors.push(error);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors
+      .sort((a, b) => a.start - b.start)
+      .map(error => error.toJSON()),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Gate and policy registry
+ *
+ * Mirrors Laravel's Gate::define for rules that are not plain permission
+ * strings, e.g. "can edit a post if they own it". Gates are registered once
+ * at module level and checked through `can()` on usePermissions or
+ * `<Can ability>`.
+ */
+
+import {
+  type GateAfterCallback,
+  type GateBeforeCallback,
+  type GateCallback,
+  type GateUser,
+  type Policy,
+} from '../types';
+
+// Gates are stored type-erased; can() passes whatever arguments it gets
+type StoredGate = GateCallback<unknown[]>;
+
+const gates = new Map<string, StoredGate>();
+const beforeCallbacks: GateBeforeCallback[] = [];
+const afterCallbacks: GateAfterCallback[] = [];
+
+/**
+ * Define a gate. The callback receives the authenticated user, with the
+ * permission helpers of usePermissions attached, followed by the arguments
+ * passed to `can()`.
+ *
+ * @example
+ * defineGate('update-post', (user, post: Post) =>
+ *   user.id === post.user_id || user.hasPermission('posts.edit-any')
+ * );
+ */
+export function defineGate<TArgs extends unknown[]>(
+  ability: string,
+  callback: GateCallback<TArgs>
+): void {
+  gates.set(ability, callback as StoredGate);
+}
+
+/**
+ * Define a policy: every method becomes a gate named `<name>.<method>`.
+ * A `before` method runs first for each of them; returning true or false
+ * decides the check, returning undefined falls through to the method.
+ *
+ * @example
+ * definePolicy('post', {
+ *   before: user => (user.hasPermission('posts.admin') ? true : undefined),
+ *   update: (user, post: Post) => user.id === post.user_id,
+ * });
+ * can('post.update', post);
+ */
+export function definePolicy(name: string, policy: Policy): void {
+  const { before, ...methods } = policy;
+
+  Object.entries(methods).forEach(([method, callback]) => {
+    if (!callback) return;
+    // Methods declare their own argument types; can() passes them through
+    const check = callback as (
+      user: GateUser,
+      ...args: unknown[]
+    ) => boolean | undefined;
+    defineGate(`${name}.${method}`, (user: GateUser, ...args: unknown[]) => {
+      const decided = before?.(user, method);
+      if (decided !== undefined) return decided;
+      return check(user, ...args) === true;
+    });
+  });
+}
+
+/**
+ * Look up a gate by ability name
+ */
+export function getGate(ability: string): StoredGate | undefined {
+  return gates.get(ability);
+}
+
+/**
+ * Register a callback that runs before every check, like Laravel's
+ * Gate::before. Returning true or false decides the check without running
+ * it; returning undefined falls through to the next callback and then the
+ * check itself.
+ *
+ * @example
+ * defineBefore(user => (user?.is_super_admin ? true : undefined));
+ */
+export function defineBefore(callback: GateBeforeCallback): void {
+  beforeCallbacks.push(callback);
+}
+
+/**
+ * Register a callback that runs after every check, like Laravel's
+ * Gate::after. It receives the result so far; returning true or false
+ * replaces it, returning undefined keeps it.
+ */
+export function defineAfter(callback: GateAfterCallback): void {
+  afterCallbacks.push(callback);
+}
+
+/**
+ * Run a check between the before and after callbacks. The user is only
+ * built when a callback needs it.
+ */
+export function runInterceptors(
+  resolveUser: () => GateUser | null,
+  ability: string,
+  args: unknown[],
+  check: () => boolean
+): boolean {
+  if (beforeCallbacks.length === 0 && afterCallbacks.length === 0) {
+    return check();
+  }
+
+  const user = resolveUser();
+  for (const before of beforeCallbacks) {
+    const decided = before(user, ability, args);
+    if (decided !== undefined) return decided;
+  }
+
+  let result = check();
+  for (const after of afterCallbacks) {
+    const replaced = after(user, ability, result, args);
+    if (replaced !== undefined) result = replaced;
+  }
+  return result;
+}
+
+/**
+ * Remove every gate, policy and before/after callback (mainly useful in
+ * tests)
+ */
+export function clearGates(): void {
+  gates.clear();
+  beforeCallbacks.length = 0;
+  afterCallbacks.length = 0;
+}
@@ -0,0 +1,78 @@
+/**
+ * Permission implications
+ *
+ * An implication map such as `{ 'posts.manage': ['posts.view', 'posts.edit'] }`
+ * lets one granted permission stand for others. Keys may be patterns, so
+ * `{ 'admin.*': ['reports.view'] }` applies to every admin permission.
+ */
+
+import { type PermissionImplications, type WildcardMode } from '../types';
+import { compilePattern, type PatternMatcher } from './pattern';
+
+interface CompiledImplication {
+  matcher: PatternMatcher;
+  implied: string[];
+}
+
+// Compiled key matchers, per implication map and wildcard mode
+const compiledMaps = new WeakMap<
+  PermissionImplications,
+  Map<WildcardMode, CompiledImplication[]>
+>();
+
+function compileImplications(
+  implications: PermissionImplications,
+  mode: WildcardMode
+): CompiledImplication[] {
+  let byMode = compiledMaps.get(implications);
+  if (!byMode) {
+    byMode = new Map();
+    compiledMaps.set(implications, byMode);
+  }
+
+  let compiled = byMode.get(mode);
+  if (!compiled) {
+    compiled = [];
+    for (const [key, implied] of Object.entries(implications)) {
+      try {
+        compiled.push({ matcher: compilePattern(key, mode), implied });
+      } catch (error) {
+        console.warn('Invalid permission implication:', key, error);
+      }
+    }
+    byMode.set(mode, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Add every permission implied by the granted ones, following implications
+ * transitively. Each permission is expanded only once, so cycles such as
+ * `a -> b -> a` stop instead of looping forever. Granted permissions keep
+ * their order and implied ones follow in the order they were found.
+ */
+export function expandImplications(
+  permissions: string[],
+  implications: PermissionImplications,
+  mode: WildcardMode = 'greedy'
+): string[] {
+  const compiled = compileImplications(implications, mode);
+  if (compiled.length === 0) return permissions;
+
+  const expanded = new Set(permissions);
+  const queue = [...expanded];
+
+  while (queue.length > 0) {
+    const permission = queue.shift() as string;
+    for (const { matcher, implied } of compiled) {
+      if (!matcher.test(permission)) continue;
+      for (const next of implied) {
+        if (expanded.has(next)) continue;
+        expanded.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return [...expanded];
+}
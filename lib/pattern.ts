@@ -0,0 +1,289 @@
+import { type WildcardMode } from '../types';
+import { LruCache } from './cache';
+import {
+  parseWildcardPermission,
+  wildcardImplies,
+} from './wildcard-permission';
+
+/**
+ * A permission pattern compiled once and reused across renders
+ */
+export interface PatternMatcher {
+  /** Source pattern, e.g. 'users.*' */
+  pattern: string;
+  /**
+   * The bare '*' or '**' pattern, which passes even when the user has no
+   * permissions
+   */
+  universal: boolean;
+  /** Test a single granted permission against the pattern */
+  test: (permission: string) => boolean;
+}
+
+/**
+ * Thrown when a pattern has an unclosed brace group or character class.
+ * Offsets are relative to the start of the pattern.
+ */
+export class PatternSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message);
+    this.name = 'PatternSyntaxError';
+  }
+}
+
+const patternCache = new LruCache<string, PatternMatcher>(1000);
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Whether a pattern uses any wildcard syntax, as opposed to being a plain
+ * permission name
+ */
+export function hasWildcards(pattern: string): boolean {
+  return /[*?{]/.test(pattern) || /\[[^\]]+\]/.test(pattern);
+}
+
+/**
+ * Convert a wildcard pattern to an anchored RegExp
+ * - '*' matches any characters, or in 'segment' mode any characters within
+ *   a single dot-separated segment
+ * - '**' matches any characters, across any number of segments
+ * - '?' matches a single character (never a dot in 'segment' mode)
+ * - '{create,edit}' matches any one of the comma-separated alternatives,
+ *   which may themselves contain wildcards or nested braces
+ * - '[0-9]', '[a-z]' match one character from a class; '[!0-9]' or
+ *   '[^0-9]' negate it
+ * Every other character is matched literally.
+ */
+export function patternToRegExp(
+  pattern: string,
+  mode: WildcardMode = 'greedy'
+): RegExp {
+  const anyChar = mode === 'segment' ? '[^.]' : '.';
+  let index = 0;
+
+  const parseSequence = (braceStart?: number): string => {
+    let source = '';
+
+    while (index < pattern.length) {
+      const char = pattern[index];
+
+      if (braceStart !== undefined && (char === ',' || char === '}')) {
+        return source;
+      }
+
+      if (char === '*' && pattern[index + 1] === '*') {
+        source += '.*';
+        index += 2;
+      } else if (char === '*') {
+        source += `${anyChar}*`;
+        index++;
+      } else if (char === '?') {
+        source += anyChar;
+        index++;
+      } else if (char === '{') {
+        source += parseBraces();
+      } else if (char === '[' && pattern.indexOf(']', index + 2) !== -1) {
+        source += parseClass();
+      } else {
+        source += escapeRegExp(char);
+        index++;
+      }
+    }
+
+    if (braceStart !== undefined) {
+      throw new PatternSyntaxError("Unclosed '{'", braceStart, braceStart + 1);
+    }
+    return source;
+  };
+
+  const parseBraces = (): string => {
+    const start = index;
+    index++; // '{'
+
+    const alternatives = [parseSequence(start)];
+    while (pattern[index] === ',') {
+      index++;
+      alternatives.push(parseSequence(start));
+    }
+    index++; // '}'
+
+    return `(?:${alternatives.join('|')})`;
+  };
+
+  const parseClass = (): string => {
+    const start = index;
+    const close = pattern.indexOf(']', index + 2);
+    let content = pattern.slice(index + 1, close);
+    index = close + 1;
+
+    let negate = '';
+    if (content[0] === '!' || content[0] === '^') {
+      negate = '^';
+      content = content.slice(1);
+    }
+
+    // Only '\' needs escaping; '-' keeps its meaning as a range operator
+    const source = `[${negate}${content.replace(/\\/g, '\\\\')}]`;
+    try {
+      new RegExp(source);
+    } catch {
+      throw new PatternSyntaxError(
+        `Invalid character class '${pattern.slice(start, index)}'`,
+        start,
+        index
+      );
+    }
+    return source;
+  };
+
+  // Ensure exact match (anchor start and end)
+  return new RegExp(`^${parseSequence()}$`);
+}
+
+/**
+ * Compile a permission pattern into a cached matcher. Patterns without
+ * wildcards are compared directly and never build a RegExp.
+ */
+export function compilePattern(
+  pattern: string,
+  mode: WildcardMode = 'greedy'
+): PatternMatcher {
+  const key = `${mode}:${pattern}`;
+  const cached = patternCache.get(key);
+  if (cached) return cached;
+
+  if (mode === 'spatie') {
+    const matcher = compileWildcardPermission(pattern);
+    patternCache.set(key, matcher);
+    return matcher;
+  }
+
+  let test: (permission: string) => boolean;
+  if (hasWildcards(pattern)) {
+    const regex = patternToRegExp(pattern, mode);
+    test = permission => regex.test(permission);
+  } else {
+    test = permission => permission === pattern;
+  }
+
+  const matcher: PatternMatcher = {
+    pattern,
+    universal: pattern.trim() === '*' || pattern.trim() === '**',
+    test,
+  };
+  patternCache.set(key, matcher);
+  return matcher;
+}
+
+// In 'spatie' mode a pattern is a requested Spatie wildcard permission, and
+// a granted permission matches when it implies it
+function compileWildcardPermission(permission: string): PatternMatcher {
+  const requested = parseWildcardPermission(permission);
+  if (!requested) {
+    throw new PatternSyntaxError(
+      `Wildcard permission '${permission}' has an empty part or subpart`,
+      0,
+      permission.length
+    );
+  }
+
+  return {
+    pattern: permission,
+    universal: false,
+    test: granted => {
+      const parts = parseWildcardPermission(granted);
+      return parts !== null && wildcardImplies(parts, requested);
+    },
+  };
+}
+
+/**
+ * Compile a granted or denied permission into a matcher that tests which
+ * requested permissions it covers. Outside 'spatie' mode that is simply the
+ * permission used as a pattern; in 'spatie' mode it must imply the request.
+ */
+export function compileGrant(
+  permission: string,
+  mode: WildcardMode = 'greedy'
+): PatternMatcher {
+  if (mode !== 'spatie') return compilePattern(permission, mode);
+
+  const key = `grant:${mode}:${permission}`;
+  const cached = patternCache.get(key);
+  if (cached) return cached;
+
+  const granted = parseWildcardPermission(permission);
+  if (!granted) {
+    throw new PatternSyntaxError(
+      `Wildcard permission '${permission}' has an empty part or subpart`,
+      0,
+      permission.length
+    );
+  }
+
+  const matcher: PatternMatcher = {
+    pattern: permission,
+    universal: false,
+    test: requested => {
+      const parts = parseWildcardPermission(requested);
+      return parts !== null && wildcardImplies(granted, parts);
+    },
+  };
+  patternCache.set(key, matcher);
+  return matcher;
+}
+
+// Flags that keep RegExp#test stateless; 'g' and 'y' would make it depend
+// on the previous call through lastIndex
+const REGEX_FLAGS = /^[imsu]*$/;
+
+/**
+ * Compile a regex literal such as '/^report_\d{4}_q[1-4]\.view$/i' into a
+ * cached matcher. The regex is tested against each granted permission as
+ * written, so anchor it with '^' and '$' for an exact match.
+ */
+export function compileRegExp(literal: string): PatternMatcher {
+  const key = `regex:${literal}`;
+  const cached = patternCache.get(key);
+  if (cached) return cached;
+
+  const close = literal.lastIndexOf('/');
+  const source = literal.slice(1, close);
+  const flags = literal.slice(close + 1);
+
+  if (!REGEX_FLAGS.test(flags)) {
+    throw new PatternSyntaxError(
+      `Unsupported regular expression flags '${flags}', use i, m, s or u`,
+      close + 1,
+      literal.length
+    );
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, flags);
+  } catch (error) {
+    throw new PatternSyntaxError((error as Error).message, 0, literal.length);
+  }
+
+  const matcher: PatternMatcher = {
+    pattern: literal,
+    universal: false,
+    test: permission => regex.test(permission),
+  };
+  patternCache.set(key, matcher);
+  return matcher;
+}
+
+/**
+ * Clear compiled patterns (mainly useful in tests)
+ */
+export function clearPatternCache(): void {
+  patternCache.clear();
+}
@@ -0,0 +1,124 @@
+/**
+ * Role definitions
+ *
+ * Instead of sharing every permission, an app can share only the user's
+ * role names and define once which permissions each role grants. A role
+ * may inherit from other roles, e.g. an editor gets everything an author
+ * has. usePermissions then derives the permissions from `auth.user.roles`.
+ */
+
+import { type RoleDefinitions } from '../types';
+import { LruCache } from './cache';
+
+let definitions: RoleDefinitions = {};
+
+// Permissions per role set, so each set is expanded only once
+const expansionCache = new LruCache<string, string[]>(100);
+
+const NO_PERMISSIONS: string[] = [];
+
+/**
+ * Thrown when role inheritance forms a cycle
+ */
+export class RoleDefinitionError extends Error {
+  constructor(
+    message: string,
+    /** Roles forming the cycle, starting and ending with the same role */
+    public readonly cycle: string[]
+  ) {
+    super(message);
+    this.name = 'RoleDefinitionError';
+  }
+}
+
+// Find a role that (indirectly) inherits from itself, returning the path
+// from that role back to it
+function findCycle(roles: RoleDefinitions): string[] | null {
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (role: string): string[] | null => {
+    const index = path.indexOf(role);
+    if (index !== -1) return [...path.slice(index), role];
+    if (done.has(role)) return null;
+
+    path.push(role);
+    for (const parent of roles[role]?.inherits ?? []) {
+      const cycle = visit(parent);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    done.add(role);
+    return null;
+  };
+
+  for (const role of Object.keys(roles)) {
+    const cycle = visit(role);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Define the permissions of roles, merged with roles defined earlier.
+ * Inheriting from an undefined role grants nothing; inheritance that forms
+ * a cycle throws a RoleDefinitionError and leaves the definitions as they
+ * were.
+ *
+ * @example
+ * defineRoles({
+ *   author: { permissions: ['posts.create', 'posts.edit-own'] },
+ *   editor: { inherits: ['author'], permissions: ['posts.publish'] },
+ * });
+ */
+export function defineRoles(roles: RoleDefinitions): void {
+  const merged = { ...definitions, ...roles };
+  const cycle = findCycle(merged);
+  if (cycle) {
+    throw new RoleDefinitionError(
+      `Role inheritance cycle: ${cycle.join(' -> ')}`,
+      cycle
+    );
+  }
+
+  definitions = merged;
+  expansionCache.clear();
+}
+
+/**
+ * The permissions granted by a set of roles, including inherited ones.
+ * Permissions keep the order roles and their parents list them, without
+ * duplicates.
+ */
+export function expandRoles(roles: string[]): string[] {
+  if (roles.length === 0 || Object.keys(definitions).length === 0) {
+    return NO_PERMISSIONS;
+  }
+
+  const key = JSON.stringify([...new Set(roles)].sort());
+  const cached = expansionCache.get(key);
+  if (cached) return cached;
+
+  const permissions = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (role: string) => {
+    if (visited.has(role)) return;
+    visited.add(role);
+    const definition = definitions[role];
+    definition?.permissions?.forEach(permission => permissions.add(permission));
+    definition?.inherits?.forEach(visit);
+  };
+  roles.forEach(visit);
+
+  const expanded = [...permissions];
+  expansionCache.set(key, expanded);
+  return expanded;
+}
+
+/**
+ * Remove every role definition (mainly useful in tests)
+ */
+export function clearRoles(): void {
+  definitions = {};
+  expansionCache.clear();
+}
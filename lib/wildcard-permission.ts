@@ -0,0 +1,68 @@
+/**
+ * Spatie wildcard permissions
+ *
+ * Mirrors spatie/laravel-permission's WildcardPermission: a permission such
+ * as 'posts:create,edit:13' is split into parts on ':' and each part into
+ * subparts on ','. A part consisting of '*' matches any subparts.
+ */
+
+import { LruCache } from './cache';
+
+const WILDCARD_TOKEN = '*';
+const PART_DELIMITER = ':';
+const SUBPART_DELIMITER = ',';
+
+/** A parsed permission: one list of subparts per part */
+export type WildcardParts = string[][];
+
+// Granted permissions are parsed on every check, so keep the results
+const partsCache = new LruCache<string, WildcardParts | null>(1000);
+
+/**
+ * Split a permission into parts and subparts, or return null when it is not
+ * properly formatted, i.e. it has an empty part or subpart
+ */
+export function parseWildcardPermission(
+  permission: string
+): WildcardParts | null {
+  const cached = partsCache.get(permission);
+  if (cached !== undefined) return cached;
+
+  const parts = permission
+    .split(PART_DELIMITER)
+    .map(part => part.split(SUBPART_DELIMITER));
+  const parsed = parts.some(subparts => subparts.includes('')) ? null : parts;
+
+  partsCache.set(permission, parsed);
+  return parsed;
+}
+
+/**
+ * Whether a granted permission implies a requested one, following
+ * WildcardPermission::implies:
+ * - every requested part must be covered by the granted part at the same
+ *   position, either because it is '*' or because it contains every
+ *   requested subpart
+ * - a granted permission with fewer parts implies anything more specific
+ * - extra granted parts must all be '*'
+ */
+export function wildcardImplies(
+  granted: WildcardParts,
+  requested: WildcardParts
+): boolean {
+  for (let i = 0; i < requested.length; i++) {
+    if (i > granted.length - 1) return true;
+
+    const part = granted[i];
+    if (
+      !part.includes(WILDCARD_TOKEN) &&
+      !requested[i].every(subpart => part.includes(subpart))
+    ) {
+      return false;
+    }
+  }
+
+  return granted
+    .slice(requested.length)
+    .every(part => part.includes(WILDCARD_TOKEN));
+}
@@ -1,10 +1,102 @@
 import { InertiaLinkProps } from '@inertiajs/react';
 import { ReactNode, ComponentType } from 'react';
 
+/**
+ * Abilities mapped to whether the user has them, as computed with
+ * Gate::check, e.g. `{ 'users.create': true, 'users.delete': false }`
+ */
+export type AbilityMap = Record<string, boolean>;
+
+/** A permission list or an ability map, where false entries deny */
+export type PermissionSource = string[] | AbilityMap;
+
+/**
+ * Plan limits and features, e.g. `{ 'projects.max': 5, sso: true }`, where
+ * a limit of true is unlimited
+ */
+export type Entitlements = Record<string, number | boolean | null>;
+
+/** How much of each quota is used, e.g. `{ 'projects.count': 3 }` */
+export type Usage = Record<string, number>;
+
+/** Identifier of a team or tenant */
+export type TeamId = string | number;
+
+/** Authorization data shared on the user, besides its permissions */
+export interface UserAuthorization {
+  /** Role names, e.g. from Spatie's getRoleNames() */
+  roles?: string[];
+  /** Permissions explicitly denied to the user, overriding any grant */
+  forbidden?: string[];
+  /** Permissions per team, e.g. with Spatie's teams feature */
+  team_permissions?: Record<string, PermissionSource>;
+  /** The user's active team, as shared by Jetstream */
+  current_team_id?: TeamId | null;
+}
+
 export interface Auth {
-  user: User & {
-    permissions: string[];
+  user: User &
+    UserAuthorization & {
+      permissions: string[];
+    };
+  /**
+   * The user of each guard, e.g. `{ web: {...}, admin: null }`, for apps
+   * sharing several guards. When present, it replaces `user`.
+   */
+  guards?: Record<string, Auth['user'] | null>;
+  /** Abilities of the user, added to `user.permissions` */
+  can?: AbilityMap;
+  /** Limits and features of the user's plan */
+  entitlements?: Entitlements;
+  /** How much of each quota the user has used */
+  usage?: Usage;
+}
+
+/**
+ * The user as read by usePermissions, whose permissions may also be an
+ * ability map, or missing when roles grant them through defineRoles
+ */
+export type ProvidedUser = User &
+  UserAuthorization & {
+    permissions?: PermissionSource;
   };
+
+/**
+ * Auth data as read by usePermissions, from a PermissionsProvider or the
+ * Inertia page props through the configured selectors, where the user may
+ * be null for guests
+ */
+export type ProvidedAuth = Omit<Auth, 'user' | 'guards'> & {
+  user: ProvidedUser | null;
+  guards?: Record<string, ProvidedUser | null>;
+};
+
+/**
+ * Where permissions, roles and the user live in the Inertia page props,
+ * for apps that do not share them as `auth.user.permissions`, and where
+ * resources keep their abilities
+ */
+export interface PermissionsConfig<TShared = SharedData> {
+  /** Select the user, or null for guests (default: `props.auth.user`) */
+  user?: (props: TShared) => Record<string, unknown> | null | undefined;
+  /** Select the permissions (default: the selected user's `permissions`) */
+  permissions?: (props: TShared) => PermissionSource | null | undefined;
+  /** Select the role names (default: the selected user's `roles`) */
+  roles?: (props: TShared) => string[] | null | undefined;
+  /** Select the plan entitlements (default: `props.auth.entitlements`) */
+  entitlements?: (props: TShared) => Entitlements | null | undefined;
+  /** Select the quota usage (default: `props.auth.usage`) */
+  usage?: (props: TShared) => Usage | null | undefined;
+  /** Key holding a resource's abilities, e.g. `post.can` (default: 'can') */
+  resourceKey?: string;
+  /** Result for an ability missing from a resource (default: false) */
+  resourceDefault?: boolean;
+  /** Guard read from auth.guards when a check does not choose (default: 'web') */
+  guard?: string;
+  /** How '*' matches when a check does not choose (default: 'greedy') */
+  wildcardMode?: WildcardMode;
+  /** Permissions implied by granted ones, unless a check passes its own */
+  implications?: PermissionImplications;
 }
 
 export interface SharedData {
@@ -37,10 +129,68 @@ export interface NavItem {
   anyPermissions?: string[];
   /** Multiple permissions - user needs ALL of these */
   allPermissions?: string[];
-  /** Permission pattern with wildcard support */
+  /**
+   * Permission pattern with wildcard support, e.g. 'users.*',
+   * 'posts.{create,edit}' or 'reports.q[1-4]'
+   */
   pattern?: string;
 }
 
+/**
+ * How '*' matches inside a permission pattern
+ * - 'greedy': '*' matches any characters, so 'users.*' also matches
+ *   'users.profile.delete'
+ * - 'segment': '*' matches a single dot-separated segment and '**' matches
+ *   any depth, so only 'users.**' matches 'users.profile.delete'
+ * - 'spatie': granted and requested permissions use Spatie's wildcard
+ *   syntax, e.g. 'posts:create,edit:13', and a granted permission passes
+ *   when it implies the requested one
+ */
+export type WildcardMode = 'greedy' | 'segment' | 'spatie';
+
+/**
+ * Permissions implied by a granted permission or pattern, e.g.
+ * `{ 'posts.manage': ['posts.view', 'posts.edit'], 'admin.*': ['reports.view'] }`
+ */
+export type PermissionImplications = Record<string, string[]>;
+
+/** Permissions granted by a role, directly or through inherited roles */
+export interface RoleDefinition {
+  /** Permissions the role grants */
+  permissions?: string[];
+  /** Roles whose permissions this role also grants */
+  inherits?: string[];
+}
+
+/** Role definitions keyed by role name */
+export type RoleDefinitions = Record<string, RoleDefinition>;
+
+export interface UsePermissionsOptions {
+  /** How '*' matches in patterns and expressions (default: set with configurePermissions, else 'greedy') */
+  wildcardMode?: WildcardMode;
+  /**
+   * Treat granted permissions containing wildcards, such as 'users.*' or a
+   * super-admin '*', as patterns that cover the permissions they match
+   * (default: false)
+   */
+  grantWildcards?: boolean;
+  /**
+   * Permissions implied by granted ones, expanded transitively before any
+   * check runs. Replaces the map set with configurePermissions.
+   */
+  implications?: PermissionImplications;
+  /**
+   * Team whose permissions to check in auth.user.team_permissions. Defaults
+   * to the nearest PermissionTeamScope, then auth.user.current_team_id.
+   */
+  team?: TeamId;
+  /**
+   * Guard whose user and permissions to check in auth.guards (default: the
+   * guard set with configurePermissions, else 'web')
+   */
+  guard?: string;
+}
+
 export interface PermissionProps {
   /** Single permission to check */
   permission?: string;
@@ -48,10 +198,29 @@ export interface PermissionProps {
   anyPermissions?: string[];
   /** Multiple permissions - user needs ALL of these */
   allPermissions?: string[];
-  /** Permission pattern with wildcard support */
+  /**
+   * Permission pattern with wildcard support, e.g. 'users.*',
+   * 'posts.{create,edit}' or 'reports.q[1-4]'
+   */
   pattern?: string;
-  /** Custom permissions array - if provided, uses this instead of auth permissions */
-  permissions?: string[];
+  /** Custom permissions array or ability map - if provided, uses this instead of auth permissions */
+  permissions?: PermissionSource;
+  /** How '*' matches in patterns and expressions (default: set with configurePermissions, else 'greedy') */
+  wildcardMode?: WildcardMode;
+  /** Let granted wildcards such as 'users.*' cover matching permissions */
+  grantWildcards?: boolean;
+  /** Permissions implied by granted ones, e.g. posts.manage implies posts.edit */
+  implications?: PermissionImplications;
+  /** Check another team than the active one */
+  team?: TeamId;
+  /** Guard whose permissions to check */
+  guard?: string;
+  /** Entitlement whose quota must have room left, e.g. 'projects.max' */
+  quota?: string;
+  /** Usage counted against the quota (default: the same key) */
+  quotaUsage?: string;
+  /** What to render when the quota is exhausted (default: fallback) */
+  upgrade?: ReactNode;
   /** What to render when user doesn't have permission */
   fallback?: ReactNode;
   /** Require authentication (default: true) */
@@ -61,6 +230,12 @@ export interface PermissionProps {
 export interface CanProps extends PermissionProps {
   /** Content to render when user has permission */
   children: ReactNode;
+  /** Gate or policy ability to check, e.g. 'update-post' */
+  ability?: string;
+  /** Arguments passed to the gate after the user */
+  args?: unknown[];
+  /** Resource whose embedded abilities `ability` and resource: leaves in `permission` or `expression` check */
+  resource?: object | null;
   /** Complex boolean expression with logical operators */
   expression?: string;
   /** Multiple patterns - user needs ANY pattern match */
@@ -69,9 +244,82 @@ export interface CanProps extends PermissionProps {
   allPatterns?: string[];
 }
 
+/**
+ * The authenticated user as passed to gates, with the permission helpers of
+ * usePermissions attached, similar to calling $user->can() in Laravel
+ */
+export type GateUser = ProvidedUser & {
+  /** Check a permission, pattern or expression */
+  hasPermission: (permission: string) => boolean;
+} & Pick<
+    UsePermissionsReturn,
+    | 'hasAnyPermission'
+    | 'hasAllPermissions'
+    | 'hasPermissionPattern'
+    | 'checkExpression'
+    | 'can'
+    | 'hasRole'
+    | 'hasAnyRole'
+    | 'hasAllRoles'
+  >;
+
+/**
+ * A gate callback, like the closure given to Laravel's Gate::define. The
+ * default `never[]` accepts a callback with any typed arguments.
+ */
+export type GateCallback<TArgs extends unknown[] = never[]> = (
+  user: GateUser,
+  ...args: TArgs
+) => boolean;
+
+/**
+ * Runs before every check, like Laravel's Gate::before. `ability` is the
+ * permission, pattern, expression or gate ability being checked. Return
+ * true or false to decide, or undefined to fall through.
+ */
+export type GateBeforeCallback = (
+  user: GateUser | null,
+  ability: string,
+  args: unknown[]
+) => boolean | undefined;
+
+/**
+ * Runs after every check, like Laravel's Gate::after. Return true or false
+ * to replace the result, or undefined to keep it.
+ */
+export type GateAfterCallback = (
+  user: GateUser | null,
+  ability: string,
+  result: boolean,
+  args: unknown[]
+) => boolean | undefined;
+
+type PolicyMethod = (user: GateUser, ...args: never[]) => boolean | undefined;
+
+/** Policy methods keyed by ability, each registered as a gate */
+export interface Policy {
+  /** Runs before every method; true or false decides, undefined falls through */
+  before?: (user: GateUser, ability: string) => boolean | undefined;
+  [method: string]: PolicyMethod | undefined;
+}
+
 export interface UsePermissionsReturn {
-  /** Array of user permissions */
+  /** Array of user permissions, including implied ones and without denied ones */
   userPermissions: string[];
+  /** Permissions denied through '-' entries or auth.user.forbidden */
+  deniedPermissions: string[];
+  /** Team whose permissions are checked, or null without team permissions */
+  activeTeam: TeamId | null;
+  /** Guard whose permissions are checked */
+  guard: string;
+  /** Role names of the user */
+  roles: string[];
+  /** Check if user has a specific role */
+  hasRole: (role: string) => boolean;
+  /** Check if user has any of the specified roles */
+  hasAnyRole: (roles: string[]) => boolean;
+  /** Check if user has all of the specified roles */
+  hasAllRoles: (roles: string[]) => boolean;
   /** Check if user has a specific permission */
   hasPermission: (permission: string | boolean) => boolean;
   /** Check if user has any of the specified permissions */
@@ -86,15 +334,125 @@ export interface UsePermissionsReturn {
   hasAllPatterns: (patterns: string[]) => boolean;
   /** Get all permissions that match a pattern */
   getMatchingPermissions: (pattern: string) => string[];
-  /** Check complex boolean expressions */
-  checkExpression: (expression: string) => boolean;
+  /**
+   * Check complex boolean expressions, with resource: leaves checked
+   * against the given resource
+   */
+  checkExpression: (expression: string, resource?: object | null) => boolean;
+  /** A plan entitlement, e.g. a limit or feature, or null when not shared */
+  entitlement: (key: string) => number | boolean | null;
+  /** How much of a quota is used, or 0 when not shared */
+  usage: (key: string) => number;
+  /**
+   * Whether a quota has room left: its entitlement is true, or a number
+   * above the usage under `usageKey` (default: the same key)
+   */
+  hasQuota: (key: string, usageKey?: string) => boolean;
+  /** Check an ability embedded in a resource, e.g. `post.can.update` */
+  canResource: (
+    resource: object | null | undefined,
+    ability: string
+  ) => boolean;
+  /**
+   * Check a gate or policy ability with its arguments, falling back to
+   * hasPermission when no gate is defined for the ability
+   */
+  can: (ability: string, ...args: unknown[]) => boolean;
+  /** Explain which parts of an expression passed or failed */
+  explainExpression: (
+    expression: string,
+    resource?: object | null
+  ) => ExpressionExplanation;
   /** Validate if a permission expression is syntactically correct */
   isValidExpression: (expression: string) => boolean;
+  /** Validate an expression and report every error with its position */
+  validateExpression: (expression: string) => ExpressionValidationResult;
   /** Whether user is authenticated */
   isAuthenticated: boolean;
 }
 
-export interface WithPermissionOptions extends PermissionProps {
+export interface ExpressionExplanation {
+  /** Kind of sub-expression, or 'error' when the expression did not parse */
+  type:
+    | 'literal'
+    | 'permission'
+    | 'role'
+    | 'resource'
+    | 'not'
+    | 'and'
+    | 'or'
+    | 'xor'
+    | 'compare'
+    | 'threshold'
+    | 'number'
+    | 'count'
+    | 'string'
+    | 'constant'
+    | 'attribute'
+    | 'entitlement'
+    | 'usage'
+    | 'list'
+    | 'error';
+  /** Source text of this sub-expression */
+  expression: string;
+  /** Whether this sub-expression passed */
+  result: boolean;
+  /** Permissions the user holds that matched a permission, pattern or count() */
+  matches?: string[];
+  /** Value of a comparison operand, such as a number, count() or attribute, or how many threshold operands passed */
+  value?: ExpressionValue;
+  /** Operands of an operator, comparison or threshold function */
+  children?: ExpressionExplanation[];
+  /** Syntax error message when the expression is invalid */
+  error?: string;
+}
+
+/** A value compared in an expression, e.g. a number, string or attribute */
+export type ExpressionValue =
+  number | string | boolean | null | ExpressionValue[];
+
+export type ExpressionErrorCode =
+  | 'illegal_character'
+  | 'unbalanced_parenthesis'
+  | 'dangling_operator'
+  | 'missing_operator'
+  | 'empty_group'
+  | 'empty_expression'
+  | 'unexpected_token'
+  | 'unknown_function'
+  | 'invalid_argument'
+  | 'missing_comparison'
+  | 'invalid_pattern'
+  | 'invalid_regex'
+  | 'unterminated_string';
+
+export interface ExpressionError {
+  /** Human readable description of the problem */
+  message: string;
+  /** Machine readable error kind */
+  code: ExpressionErrorCode;
+  /** Offset of the first offending character */
+  start: number;
+  /** Offset just past the last offending character */
+  end: number;
+}
+
+export interface ExpressionValidationResult {
+  /** Whether the expression can be evaluated */
+  valid: boolean;
+  /** Every problem found, ordered by position */
+  errors: ExpressionError[];
+}
+
+export interface WithPermissionOptions<
+  P = Record<string, unknown>,
+> extends PermissionProps {
+  /** Gate or policy ability to check, e.g. 'update-post' */
+  ability?: string;
+  /** Arguments passed to the gate after the user */
+  args?: unknown[];
+  /** Resource whose embedded abilities to check, or a function of the props returning it */
+  resource?: object | null | ((props: P) => object | null | undefined);
   /** Complex boolean expression with logical operators */
   expression?: string;
   /** Multiple patterns - user needs ANY pattern match */